@@ -1,11 +1,17 @@
+import { hasRouteThumbnail, RouteThumbnail } from '@/components/RouteThumbnail';
 import { BorderRadius, Colors, FontSize, Shadow, Spacing } from '@/constants/theme';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { ImportService } from '@/services/ImportService';
+import { LocationService } from '@/services/LocationService';
 import { TargetService } from '@/services/TargetService';
+import { WorkoutService, WorkoutSource } from '@/services/WorkoutService';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect } from 'expo-router';
 import React, { useCallback, useState } from 'react';
 import {
+    ActivityIndicator,
+    Alert,
     Modal,
     RefreshControl,
     ScrollView,
@@ -21,9 +27,10 @@ interface WorkoutItem {
     date: string;
     distance_km: number;
     duration_sec: number;
-    route_geojson: any;
+    route_preview: string | null; // Encoded polyline, see LocationService.toRoutePreview
     started_at: string | null;
     finished_at: string | null;
+    source: WorkoutSource | null;
 }
 
 interface DayData {
@@ -66,6 +73,7 @@ export default function HistoryScreen() {
     const [friends, setFriends] = useState<Friend[]>([]);
     const [selectedUser, setSelectedUser] = useState<Friend | null>(null);
     const [pickerVisible, setPickerVisible] = useState(false);
+    const [importing, setImporting] = useState(false);
 
     const viewingId = selectedUser?.id ?? user?.id;
 
@@ -90,6 +98,36 @@ export default function HistoryScreen() {
         setFriends(profiles || []);
     }, [user]);
 
+    // Workouts saved before route previews existed: fetch their full routes once, derive
+    // the preview locally and, for our own workouts, store it so no one fetches them again
+    const loadLegacyPreviews = async (items: WorkoutItem[], isOwn: boolean) => {
+        const legacyIds = items
+            .filter(w => !w.route_preview && WorkoutService.hasRoute(w.source) && !hasRouteThumbnail(w.id))
+            .map(w => w.id);
+        if (legacyIds.length === 0) return;
+
+        let routes: Map<string, any>;
+        try {
+            routes = await WorkoutService.loadRoutes(legacyIds);
+        } catch (error) {
+            console.error('Error loading legacy routes:', error);
+            return;
+        }
+
+        const previews = new Map<string, string>();
+        routes.forEach((route, id) => {
+            const preview = LocationService.toRoutePreview(route);
+            if (preview) previews.set(id, preview);
+        });
+        setWorkouts(prev => prev.map(w => (previews.get(w.id) ? { ...w, route_preview: previews.get(w.id)! } : w)));
+
+        if (!isOwn) return;
+        for (const [id, preview] of previews) {
+            const { error } = await supabase.from('workouts').update({ route_preview: preview }).eq('id', id);
+            if (error) console.error('Error saving route preview:', error);
+        }
+    };
+
     const loadData = useCallback(async () => {
         if (!viewingId) return;
 
@@ -105,7 +143,7 @@ export default function HistoryScreen() {
                 : Promise.resolve({ data: [] }),
             supabase
                 .from('workouts')
-                .select('id, date, distance_km, duration_sec, route_geojson, started_at, finished_at')
+                .select('id, date, distance_km, duration_sec, route_preview, started_at, finished_at, source')
                 .eq('user_id', viewingId)
                 .gte('date', start)
                 .lte('date', end)
@@ -115,6 +153,7 @@ export default function HistoryScreen() {
         const targets = (targetsResult.data || []) as any[];
         const monthWorkouts = (workoutsResult.data || []) as WorkoutItem[];
         setWorkouts(monthWorkouts);
+        loadLegacyPreviews(monthWorkouts, isOwn);
 
         const daysInMonth = new Date(year, month, 0).getDate();
         const days: DayData[] = [];
@@ -149,6 +188,48 @@ export default function HistoryScreen() {
         setRefreshing(false);
     };
 
+    // Import a GPX/TCX file and save it through the workout summary, like a recorded run
+    const importWorkout = async () => {
+        if (importing) return;
+        setImporting(true);
+        const { data, error } = await ImportService.pickWorkoutFile();
+
+        if (error) {
+            setImporting(false);
+            Alert.alert('Lỗi nhập tệp', error.message);
+            return;
+        }
+        if (!data || !user) {
+            setImporting(false);
+            return;
+        }
+
+        try {
+            if (await WorkoutService.findDuplicate(user.id, data.startedAt, data.distanceKm)) {
+                Alert.alert('Đã nhập trước đó', 'Bài chạy trong tệp này đã có trong lịch sử.');
+                return;
+            }
+        } catch (e) {
+            console.error('Error checking for a duplicate import:', e);
+        } finally {
+            setImporting(false);
+        }
+
+        router.push({
+            pathname: '/workout-summary',
+            params: {
+                distance: data.distanceKm.toFixed(4),
+                duration: data.durationSec.toString(),
+                elapsed: data.elapsedSec.toString(),
+                calories: data.calories.toString(),
+                routeGeoJSON: JSON.stringify(data.routeGeoJSON),
+                startedAt: data.startedAt,
+                finishedAt: data.finishedAt,
+                source: 'import',
+            },
+        });
+    };
+
     const changeMonth = (delta: number) => {
         setCurrentMonth(prev => {
             const next = new Date(prev);
@@ -190,21 +271,35 @@ export default function HistoryScreen() {
                 {/* Header row */}
                 <View style={styles.headerRow}>
                     <Text style={styles.title}>Lịch sử</Text>
-                    <TouchableOpacity
-                        style={styles.friendPickerBtn}
-                        onPress={() => setPickerVisible(true)}
-                        activeOpacity={0.8}
-                    >
-                        <Ionicons
-                            name={selectedUser ? 'person' : 'person-circle-outline'}
-                            size={16}
-                            color={Colors.primary}
-                        />
-                        <Text style={styles.friendPickerText} numberOfLines={1}>
-                            {selectedUser ? selectedUser.username : 'Lịch sử của tôi'}
-                        </Text>
-                        <Ionicons name="chevron-down" size={14} color={Colors.primary} />
-                    </TouchableOpacity>
+                    <View style={styles.headerActions}>
+                        {!selectedUser && (
+                            <TouchableOpacity
+                                style={styles.importBtn}
+                                onPress={importWorkout}
+                                disabled={importing}
+                                activeOpacity={0.8}
+                            >
+                                {importing
+                                    ? <ActivityIndicator size="small" color={Colors.primary} />
+                                    : <Ionicons name="cloud-upload-outline" size={18} color={Colors.primary} />}
+                            </TouchableOpacity>
+                        )}
+                        <TouchableOpacity
+                            style={styles.friendPickerBtn}
+                            onPress={() => setPickerVisible(true)}
+                            activeOpacity={0.8}
+                        >
+                            <Ionicons
+                                name={selectedUser ? 'person' : 'person-circle-outline'}
+                                size={16}
+                                color={Colors.primary}
+                            />
+                            <Text style={styles.friendPickerText} numberOfLines={1}>
+                                {selectedUser ? selectedUser.username : 'Lịch sử của tôi'}
+                            </Text>
+                            <Ionicons name="chevron-down" size={14} color={Colors.primary} />
+                        </TouchableOpacity>
+                    </View>
                 </View>
 
                 {/* Month navigation */}
@@ -301,9 +396,26 @@ export default function HistoryScreen() {
                                 </Text>
                             </View>
 
+                            {/* Route thumbnail */}
+                            {WorkoutService.hasRoute(wo.source) && (
+                                <RouteThumbnail workoutId={wo.id} route={wo.route_preview} />
+                            )}
+
                             {/* Main info */}
                             <View style={styles.workoutInfo}>
-                                <Text style={styles.workoutDistance}>{Number(wo.distance_km).toFixed(2)} km</Text>
+                                <View style={styles.distanceRow}>
+                                    <Text style={styles.workoutDistance}>{Number(wo.distance_km).toFixed(2)} km</Text>
+                                    {wo.source === 'manual' && (
+                                        <View style={styles.manualBadge}>
+                                            <Text style={styles.manualBadgeText}>Thủ công</Text>
+                                        </View>
+                                    )}
+                                    {wo.source === 'treadmill' && (
+                                        <View style={styles.manualBadge}>
+                                            <Text style={styles.manualBadgeText}>Máy chạy</Text>
+                                        </View>
+                                    )}
+                                </View>
                                 <Text style={styles.workoutDuration}>{formatDuration(wo.duration_sec)}</Text>
                                 {/* Start → End time */}
                                 {(wo.started_at || wo.finished_at) && (
@@ -406,6 +518,13 @@ const styles = StyleSheet.create({
         paddingHorizontal: Spacing.lg, paddingTop: Spacing.md, paddingBottom: Spacing.sm,
     },
     title: { fontSize: FontSize.xxl, fontWeight: '800', color: Colors.text },
+    headerActions: { flexDirection: 'row', alignItems: 'center', gap: Spacing.sm },
+    importBtn: {
+        width: 36, height: 36, borderRadius: 18,
+        justifyContent: 'center', alignItems: 'center',
+        backgroundColor: Colors.primary + '18',
+        borderWidth: 1.5, borderColor: Colors.primary + '40',
+    },
     friendPickerBtn: {
         flexDirection: 'row', alignItems: 'center', gap: 5,
         backgroundColor: Colors.primary + '18',
@@ -469,7 +588,13 @@ const styles = StyleSheet.create({
     workoutDay: { fontSize: FontSize.xl, fontWeight: '800', color: Colors.primary },
     workoutMonth: { fontSize: FontSize.xs, color: Colors.textSecondary, fontWeight: '500' },
     workoutInfo: { flex: 1, marginLeft: Spacing.sm },
+    distanceRow: { flexDirection: 'row', alignItems: 'center', gap: 6 },
     workoutDistance: { fontSize: FontSize.lg, fontWeight: '700', color: Colors.text },
+    manualBadge: {
+        backgroundColor: Colors.backgroundSecondary, borderRadius: BorderRadius.sm,
+        paddingHorizontal: 6, paddingVertical: 1,
+    },
+    manualBadgeText: { fontSize: 10, fontWeight: '700', color: Colors.textSecondary },
     workoutDuration: { fontSize: FontSize.sm, color: Colors.textSecondary },
     timeRow: { flexDirection: 'row', alignItems: 'center', gap: 3, marginTop: 2 },
     timeText: { fontSize: 11, color: Colors.textLight },
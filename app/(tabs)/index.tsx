@@ -3,10 +3,13 @@ import { BorderRadius, Colors, FontSize, Shadow, Spacing } from '@/constants/the
 import { useAuth } from '@/contexts/AuthContext';
 import { StreakService } from '@/services/StreakService';
 import { TargetService } from '@/services/TargetService';
+import { WorkoutJournalService } from '@/services/WorkoutJournalService';
+import { WorkoutService } from '@/services/WorkoutService';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useFocusEffect } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
+  Alert,
   RefreshControl,
   ScrollView,
   StyleSheet,
@@ -19,7 +22,12 @@ export default function HomeScreen() {
   const { user, profile, refreshProfile } = useAuth();
   const [todayTarget, setTodayTarget] = useState(0);
   const [todayDistance, setTodayDistance] = useState(0);
-  const [streak, setStreak] = useState({ current_streak: 0, longest_streak: 0, penalty_km: 0 });
+  const [streak, setStreak] = useState({
+    current_streak: 0,
+    longest_streak: 0,
+    penalty_km: 0,
+    last_run_date: null as string | null,
+  });
   const [refreshing, setRefreshing] = useState(false);
 
   const loadData = useCallback(async () => {
@@ -52,6 +60,48 @@ export default function HomeScreen() {
     }, [loadData])
   );
 
+  // Workouts saved before best efforts were stored get them once, so records include them
+  useEffect(() => {
+    if (!user) return;
+    WorkoutService.backfillBestEfforts(user.id).catch((error) => {
+      console.error('Error backfilling best efforts:', error);
+    });
+  }, [user]);
+
+  // Offer to resume or finish a run that was interrupted (app killed mid-workout)
+  useEffect(() => {
+    if (!user) return;
+    WorkoutJournalService.getUnfinished(user.id).then((recovered) => {
+      if (!recovered) return;
+      // The distance "Kết thúc" would save
+      const summaryParams = WorkoutJournalService.toSummaryParams(recovered);
+      const distanceKm = parseFloat(summaryParams.distance);
+      Alert.alert(
+        'Bài chạy chưa hoàn thành',
+        `Bạn có một bài chạy ${distanceKm.toFixed(2)} km bị gián đoạn. Bạn muốn làm gì?`,
+        [
+          {
+            text: 'Huỷ bỏ',
+            style: 'destructive',
+            onPress: () => WorkoutJournalService.clear(user.id),
+          },
+          {
+            text: 'Kết thúc',
+            onPress: () => {
+              // The summary clears the journal once the run is saved
+              router.push({ pathname: '/workout-summary', params: summaryParams });
+            },
+          },
+          {
+            text: 'Tiếp tục',
+            onPress: () => router.push({ pathname: '/workout', params: { resume: '1', mode: recovered.mode } }),
+          },
+        ],
+        { cancelable: false }
+      );
+    });
+  }, [user]);
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadData();
@@ -60,6 +110,9 @@ export default function HomeScreen() {
 
   const progress = todayTarget > 0 ? todayDistance / todayTarget : 0;
   const totalRequired = todayTarget + (streak.penalty_km || 0);
+  const isBeginner = TargetService.isBeginnerPhase(
+    TargetService.streakDayToday(streak.current_streak, streak.last_run_date)
+  );
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -129,6 +182,24 @@ export default function HomeScreen() {
           </View>
         </View>
 
+        {/* Run/walk suggestion while the targets are still beginner distances */}
+        {isBeginner && (
+          <TouchableOpacity
+            style={styles.runWalkCard}
+            onPress={() => router.push({ pathname: '/interval-builder', params: { type: 'runwalk' } })}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="walk" size={24} color={Colors.primaryDark} />
+            <View style={styles.runWalkTextWrap}>
+              <Text style={styles.runWalkTitle}>Chạy xen kẽ đi bộ</Text>
+              <Text style={styles.runWalkText}>
+                Chưa chạy liền được cả quãng? Chạy rồi đi bộ nghỉ, máy sẽ báo lúc đổi.
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={Colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+
         {/* Start Run Button */}
         <TouchableOpacity
           style={styles.startButton}
@@ -138,6 +209,40 @@ export default function HomeScreen() {
           <Ionicons name="play" size={28} color="#fff" style={{ marginRight: 8 }} />
           <Text style={styles.startButtonText}>BẮT ĐẦU CHẠY</Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.manualButton}
+          onPress={() => router.push({ pathname: '/workout', params: { mode: 'treadmill' } })}
+        >
+          <Ionicons name="footsteps-outline" size={18} color={Colors.textSecondary} style={{ marginRight: 6 }} />
+          <Text style={styles.manualButtonText}>Chạy trên máy</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.manualButton}
+          onPress={() => router.push('/interval-builder')}
+        >
+          <Ionicons name="repeat-outline" size={18} color={Colors.textSecondary} style={{ marginRight: 6 }} />
+          <Text style={styles.manualButtonText}>Bài tập interval</Text>
+        </TouchableOpacity>
+
+        {!isBeginner && (
+          <TouchableOpacity
+            style={styles.manualButton}
+            onPress={() => router.push({ pathname: '/interval-builder', params: { type: 'runwalk' } })}
+          >
+            <Ionicons name="walk-outline" size={18} color={Colors.textSecondary} style={{ marginRight: 6 }} />
+            <Text style={styles.manualButtonText}>Chạy xen kẽ đi bộ</Text>
+          </TouchableOpacity>
+        )}
+
+        <TouchableOpacity
+          style={styles.manualButton}
+          onPress={() => router.push('/manual-workout')}
+        >
+          <Ionicons name="create-outline" size={18} color={Colors.textSecondary} style={{ marginRight: 6 }} />
+          <Text style={styles.manualButtonText}>Nhập bài chạy thủ công</Text>
+        </TouchableOpacity>
       </ScrollView>
     </SafeAreaView>
   );
@@ -265,6 +370,31 @@ const styles = StyleSheet.create({
     color: Colors.text,
     marginTop: 4,
   },
+  runWalkCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F1FBE6',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    borderColor: Colors.primaryLight,
+    marginBottom: Spacing.md,
+  },
+  runWalkTextWrap: {
+    flex: 1,
+    marginHorizontal: Spacing.sm,
+  },
+  runWalkTitle: {
+    fontSize: FontSize.md,
+    fontWeight: '700',
+    color: Colors.primaryDark,
+  },
+  runWalkText: {
+    fontSize: FontSize.xs,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
   startButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -274,6 +404,18 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.xl,
     ...Shadow.button,
   },
+  manualButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  manualButtonText: {
+    fontSize: FontSize.sm,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
   startButtonText: {
     fontSize: FontSize.xl,
     fontWeight: '800',
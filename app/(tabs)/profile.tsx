@@ -1,24 +1,74 @@
 import { BorderRadius, Colors, FontSize, Spacing } from '@/constants/theme';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { EFFORT_LABELS, EffortKey } from '@/services/BestEffortsService';
+import { Sex } from '@/services/CaloriesService';
+import { DiagnosticsService } from '@/services/DiagnosticsService';
+import { ImportService } from '@/services/ImportService';
+import { LocationService } from '@/services/LocationService';
+import { PersonalRecord, PersonalRecordsService } from '@/services/PersonalRecordsService';
+import { ReplayLocationSource } from '@/services/ReplayLocationSource';
+import { AppSettings, SettingsService } from '@/services/SettingsService';
 import { StreakService } from '@/services/StreakService';
+import { VOICE_STAT_LABELS, VoiceCoachService, VoiceLanguage, VoiceStat } from '@/services/VoiceCoachService';
+import { WorkoutService } from '@/services/WorkoutService';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from 'expo-router';
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     Alert, ScrollView,
     StyleSheet,
+    Switch,
     Text,
+    TextInput,
     TouchableOpacity,
     View,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+const AUTO_PAUSE_DELAYS = [5, 10, 15, 30]; // seconds
+const REPLAY_SPEEDS = [1, 2, 5, 10];
+const VOICE_LANGUAGES: { value: VoiceLanguage; label: string }[] = [
+    { value: 'vi', label: 'Tiếng Việt' },
+    { value: 'en', label: 'English' },
+];
+const VOICE_DISTANCES = [0, 0.5, 1, 2]; // km, 0 = off
+const VOICE_TIMES = [0, 5, 10]; // minutes, 0 = off
+const VOICE_STATS = Object.keys(VOICE_STAT_LABELS) as VoiceStat[];
+const SEX_OPTIONS: { value: Sex; label: string }[] = [
+    { value: 'male', label: 'Nam' },
+    { value: 'female', label: 'Nữ' },
+];
+
+function formatEffortTime(sec: number): string {
+    const h = Math.floor(sec / 3600);
+    const m = Math.floor((sec % 3600) / 60);
+    const s = sec % 60;
+    if (h > 0) return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
+    return `${m}:${String(s).padStart(2, '0')}`;
+}
+
 export default function ProfileScreen() {
     const { user, profile, signOut, refreshProfile } = useAuth();
     const [streak, setStreak] = useState({ current_streak: 0, longest_streak: 0, penalty_km: 0 });
     const [totalWorkouts, setTotalWorkouts] = useState(0);
     const [totalDistance, setTotalDistance] = useState(0);
+    const [settings, setSettings] = useState<AppSettings | null>(null);
+    const [locationSourceName, setLocationSourceName] = useState(LocationService.getSource().name);
+    const [replaySpeed, setReplaySpeed] = useState(1);
+    const [records, setRecords] = useState<PersonalRecord[]>([]);
+    const [weight, setWeight] = useState('');
+    const [height, setHeight] = useState('');
+    const [birthYear, setBirthYear] = useState('');
+    const [sex, setSex] = useState<Sex | null>(null);
+    const [savingBody, setSavingBody] = useState(false);
+
+    useEffect(() => {
+        setWeight(profile?.weight_kg ? String(profile.weight_kg) : '');
+        setHeight(profile?.height_cm ? String(profile.height_cm) : '');
+        setBirthYear(profile?.birth_year ? String(profile.birth_year) : '');
+        setSex(profile?.sex ?? null);
+    }, [profile?.weight_kg, profile?.height_cm, profile?.birth_year, profile?.sex]);
 
     useFocusEffect(
         useCallback(() => {
@@ -40,9 +90,126 @@ export default function ProfileScreen() {
                 await refreshProfile();
             };
             load();
+            SettingsService.getSettings().then(setSettings);
+            PersonalRecordsService.getRecords(user.id).then(setRecords);
         }, [user])
     );
 
+    const updateSettings = async (patch: Partial<AppSettings>) => {
+        setSettings(prev => prev && { ...prev, ...patch });
+        setSettings(await SettingsService.updateSettings(patch));
+    };
+
+    const saveBodyMetrics = async () => {
+        if (!user) return;
+        const parse = (text: string) => {
+            const value = parseFloat(text.replace(',', '.'));
+            return Number.isFinite(value) ? value : null;
+        };
+        const weightKg = parse(weight);
+        const heightCm = parse(height);
+        const year = parse(birthYear);
+        const thisYear = new Date().getFullYear();
+
+        if (weightKg !== null && (weightKg < 25 || weightKg > 250)) {
+            Alert.alert('Lỗi', 'Cân nặng phải từ 25 đến 250 kg');
+            return;
+        }
+        if (heightCm !== null && (heightCm < 100 || heightCm > 250)) {
+            Alert.alert('Lỗi', 'Chiều cao phải từ 100 đến 250 cm');
+            return;
+        }
+        if (year !== null && (!Number.isInteger(year) || year < thisYear - 100 || year > thisYear - 5)) {
+            Alert.alert('Lỗi', 'Năm sinh không hợp lệ');
+            return;
+        }
+
+        setSavingBody(true);
+        const { error } = await supabase
+            .from('profiles')
+            .update({ weight_kg: weightKg, height_cm: heightCm, birth_year: year, sex })
+            .eq('id', user.id);
+        setSavingBody(false);
+        if (error) {
+            console.error('Error saving body metrics:', error);
+            Alert.alert('Lỗi', error.message);
+            return;
+        }
+        await refreshProfile();
+        Alert.alert('Đã lưu', 'Lượng calo sẽ được tính theo chỉ số của bạn');
+    };
+
+    // Keep the runner's picks in the fixed order they are read out
+    const toggleVoiceStat = (stat: VoiceStat) => {
+        if (!settings) return;
+        const picked = settings.voiceStats.includes(stat)
+            ? settings.voiceStats.filter(s => s !== stat)
+            : [...settings.voiceStats, stat];
+        updateSettings({ voiceStats: VOICE_STATS.filter(s => picked.includes(s)) });
+    };
+
+    const previewVoice = () => {
+        if (!settings) return;
+        VoiceCoachService.preview({
+            language: settings.voiceLanguage,
+            distanceIntervalKm: settings.voiceDistanceKm,
+            timeIntervalMin: settings.voiceTimeMin,
+            stats: settings.voiceStats,
+        });
+    };
+
+    // Development builds only: feed a recorded track through the tracking pipeline
+    const replayFile = async () => {
+        const { data, error } = await ImportService.pickWorkoutXml();
+        if (error) {
+            Alert.alert('Lỗi', error.message);
+            return;
+        }
+        if (!data) return;
+        try {
+            LocationService.setSource(ReplayLocationSource.fromXml(data.name, data.xml, { speedMultiplier: replaySpeed }));
+            setLocationSourceName(LocationService.getSource().name);
+        } catch (e: any) {
+            Alert.alert('Lỗi', e.message);
+        }
+    };
+
+    const replayLastWorkout = async () => {
+        if (!user) return;
+        const { data, error } = await supabase
+            .from('workouts')
+            .select('id, date, started_at')
+            .eq('user_id', user.id)
+            .or('source.is.null,source.in.(gps,import)')
+            .order('started_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+        if (error || !data) {
+            Alert.alert('Lỗi', error?.message || 'Chưa có bài chạy nào có bản đồ');
+            return;
+        }
+        try {
+            const route = await WorkoutService.loadRoute(data.id);
+            const options = { speedMultiplier: replaySpeed, label: `Bài chạy ${data.date}` };
+            // The unfiltered fixes, when diagnostics recorded the run, so the noise filter sees
+            // what the phone originally reported
+            const fixes = DiagnosticsService.hasRecording(data.started_at)
+                ? await DiagnosticsService.readFixes(data.started_at)
+                : [];
+            LocationService.setSource(fixes.length > 1
+                ? ReplayLocationSource.fromRecording(fixes, options)
+                : ReplayLocationSource.fromRoute(route, options));
+            setLocationSourceName(LocationService.getSource().name);
+        } catch (e: any) {
+            Alert.alert('Lỗi', e.message);
+        }
+    };
+
+    const resetLocationSource = () => {
+        LocationService.setSource(null);
+        setLocationSourceName(LocationService.getSource().name);
+    };
+
     const handleLogout = () => {
         Alert.alert('Đăng xuất', 'Bạn có chắc chắn muốn đăng xuất?', [
             { text: 'Hủy', style: 'cancel' },
@@ -99,6 +266,252 @@ export default function ProfileScreen() {
                     </View>
                 </View>
 
+                {/* Personal records */}
+                {records.length > 0 && (
+                    <View style={styles.settingsCard}>
+                        <Text style={styles.settingsTitle}>Kỷ lục cá nhân</Text>
+                        {(Object.keys(EFFORT_LABELS) as EffortKey[]).map(key => {
+                            const record = records.find(r => r.effort_key === key);
+                            if (!record) return null;
+                            return (
+                                <View key={key} style={styles.recordRow}>
+                                    <Text style={styles.recordLabel}>{EFFORT_LABELS[key]}</Text>
+                                    <Text style={styles.recordValue}>
+                                        {key === 'longest'
+                                            ? `${(Number(record.distance_m) / 1000).toFixed(2)} km`
+                                            : formatEffortTime(record.time_sec)}
+                                    </Text>
+                                    <Text style={styles.recordDate}>
+                                        {new Date(record.achieved_on + 'T00:00:00').toLocaleDateString('vi-VN')}
+                                    </Text>
+                                </View>
+                            );
+                        })}
+                    </View>
+                )}
+
+                {/* Body metrics, used for calorie estimates */}
+                <View style={styles.settingsCard}>
+                    <Text style={styles.settingsTitle}>Chỉ số cơ thể</Text>
+                    <Text style={styles.settingHint}>Dùng để tính lượng calo tiêu hao chính xác hơn</Text>
+                    <View style={styles.bodyRow}>
+                        <View style={styles.bodyField}>
+                            <Text style={styles.bodyLabel}>Cân nặng (kg)</Text>
+                            <TextInput
+                                style={styles.bodyInput}
+                                value={weight}
+                                onChangeText={setWeight}
+                                keyboardType="decimal-pad"
+                                placeholder="70"
+                                placeholderTextColor={Colors.textLight}
+                            />
+                        </View>
+                        <View style={styles.bodyField}>
+                            <Text style={styles.bodyLabel}>Chiều cao (cm)</Text>
+                            <TextInput
+                                style={styles.bodyInput}
+                                value={height}
+                                onChangeText={setHeight}
+                                keyboardType="decimal-pad"
+                                placeholder="170"
+                                placeholderTextColor={Colors.textLight}
+                            />
+                        </View>
+                        <View style={styles.bodyField}>
+                            <Text style={styles.bodyLabel}>Năm sinh</Text>
+                            <TextInput
+                                style={styles.bodyInput}
+                                value={birthYear}
+                                onChangeText={setBirthYear}
+                                keyboardType="number-pad"
+                                placeholder="1995"
+                                placeholderTextColor={Colors.textLight}
+                                maxLength={4}
+                            />
+                        </View>
+                    </View>
+                    <View style={styles.chipRow}>
+                        {SEX_OPTIONS.map(option => (
+                            <TouchableOpacity
+                                key={option.value}
+                                style={[styles.chip, sex === option.value && styles.chipActive]}
+                                onPress={() => setSex(sex === option.value ? null : option.value)}
+                            >
+                                <Text style={[styles.chipText, sex === option.value && styles.chipTextActive]}>
+                                    {option.label}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <TouchableOpacity
+                        style={[styles.bodySaveButton, savingBody && { opacity: 0.6 }]}
+                        onPress={saveBodyMetrics}
+                        disabled={savingBody}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.bodySaveText}>{savingBody ? 'Đang lưu...' : 'Lưu'}</Text>
+                    </TouchableOpacity>
+                </View>
+
+                {/* Run settings */}
+                {settings && (
+                    <View style={styles.settingsCard}>
+                        <Text style={styles.settingsTitle}>Cài đặt chạy</Text>
+                        <View style={styles.settingRow}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.settingLabel}>Tự động tạm dừng</Text>
+                                <Text style={styles.settingHint}>Dừng đồng hồ khi bạn đứng yên</Text>
+                            </View>
+                            <Switch
+                                value={settings.autoPauseEnabled}
+                                onValueChange={(v) => updateSettings({ autoPauseEnabled: v })}
+                                trackColor={{ true: Colors.primary, false: Colors.surface }}
+                            />
+                        </View>
+                        {settings.autoPauseEnabled && (
+                            <View style={styles.chipRow}>
+                                {AUTO_PAUSE_DELAYS.map(sec => (
+                                    <TouchableOpacity
+                                        key={sec}
+                                        style={[styles.chip, settings.autoPauseDelaySec === sec && styles.chipActive]}
+                                        onPress={() => updateSettings({ autoPauseDelaySec: sec })}
+                                    >
+                                        <Text style={[styles.chipText, settings.autoPauseDelaySec === sec && styles.chipTextActive]}>
+                                            {sec}s
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        )}
+                        <View style={styles.settingRow}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.settingLabel}>Ghi dữ liệu chẩn đoán</Text>
+                                <Text style={styles.settingHint}>Lưu tín hiệu GPS và cảm biến thô để gửi khi báo lỗi</Text>
+                            </View>
+                            <Switch
+                                value={settings.diagnosticsEnabled}
+                                onValueChange={(v) => updateSettings({ diagnosticsEnabled: v })}
+                                trackColor={{ true: Colors.primary, false: Colors.surface }}
+                            />
+                        </View>
+                    </View>
+                )}
+
+                {/* Voice cues */}
+                {settings && (
+                    <View style={styles.settingsCard}>
+                        <Text style={styles.settingsTitle}>Hướng dẫn bằng giọng nói</Text>
+                        <View style={styles.settingRow}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={styles.settingLabel}>Đọc thông số khi chạy</Text>
+                                <Text style={styles.settingHint}>Không cần nhìn điện thoại để biết quãng đường</Text>
+                            </View>
+                            <Switch
+                                value={settings.voiceEnabled}
+                                onValueChange={(v) => updateSettings({ voiceEnabled: v })}
+                                trackColor={{ true: Colors.primary, false: Colors.surface }}
+                            />
+                        </View>
+                        {settings.voiceEnabled && (
+                            <>
+                                <Text style={styles.settingLabel}>Ngôn ngữ</Text>
+                                <View style={styles.chipRow}>
+                                    {VOICE_LANGUAGES.map(option => (
+                                        <TouchableOpacity
+                                            key={option.value}
+                                            style={[styles.chip, settings.voiceLanguage === option.value && styles.chipActive]}
+                                            onPress={() => updateSettings({ voiceLanguage: option.value })}
+                                        >
+                                            <Text style={[styles.chipText, settings.voiceLanguage === option.value && styles.chipTextActive]}>
+                                                {option.label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                                <Text style={styles.settingLabel}>Đọc mỗi quãng</Text>
+                                <View style={styles.chipRow}>
+                                    {VOICE_DISTANCES.map(km => (
+                                        <TouchableOpacity
+                                            key={km}
+                                            style={[styles.chip, settings.voiceDistanceKm === km && styles.chipActive]}
+                                            onPress={() => updateSettings({ voiceDistanceKm: km })}
+                                        >
+                                            <Text style={[styles.chipText, settings.voiceDistanceKm === km && styles.chipTextActive]}>
+                                                {km === 0 ? 'Tắt' : `${String(km).replace('.', ',')} km`}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                                <Text style={styles.settingLabel}>Đọc mỗi khoảng thời gian</Text>
+                                <View style={styles.chipRow}>
+                                    {VOICE_TIMES.map(min => (
+                                        <TouchableOpacity
+                                            key={min}
+                                            style={[styles.chip, settings.voiceTimeMin === min && styles.chipActive]}
+                                            onPress={() => updateSettings({ voiceTimeMin: min })}
+                                        >
+                                            <Text style={[styles.chipText, settings.voiceTimeMin === min && styles.chipTextActive]}>
+                                                {min === 0 ? 'Tắt' : `${min} phút`}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                                <Text style={styles.settingLabel}>Thông số được đọc</Text>
+                                <View style={styles.chipRow}>
+                                    {VOICE_STATS.map(stat => (
+                                        <TouchableOpacity
+                                            key={stat}
+                                            style={[styles.chip, settings.voiceStats.includes(stat) && styles.chipActive]}
+                                            onPress={() => toggleVoiceStat(stat)}
+                                        >
+                                            <Text style={[styles.chipText, settings.voiceStats.includes(stat) && styles.chipTextActive]}>
+                                                {VOICE_STAT_LABELS[stat]}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                                <View style={styles.chipRow}>
+                                    <TouchableOpacity style={styles.chip} onPress={previewVoice}>
+                                        <Text style={styles.chipText}>Nghe thử</Text>
+                                    </TouchableOpacity>
+                                </View>
+                            </>
+                        )}
+                    </View>
+                )}
+
+                {/* Developer tools */}
+                {__DEV__ && (
+                    <View style={styles.settingsCard}>
+                        <Text style={styles.settingsTitle}>Nhà phát triển</Text>
+                        <Text style={styles.settingHint}>Nguồn vị trí: {locationSourceName}</Text>
+                        <View style={styles.chipRow}>
+                            {REPLAY_SPEEDS.map(speed => (
+                                <TouchableOpacity
+                                    key={speed}
+                                    style={[styles.chip, replaySpeed === speed && styles.chipActive]}
+                                    onPress={() => setReplaySpeed(speed)}
+                                >
+                                    <Text style={[styles.chipText, replaySpeed === speed && styles.chipTextActive]}>
+                                        ×{speed}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+                        <View style={styles.chipRow}>
+                            <TouchableOpacity style={styles.chip} onPress={replayFile}>
+                                <Text style={styles.chipText}>Phát lại tệp GPX/TCX</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.chip} onPress={replayLastWorkout}>
+                                <Text style={styles.chipText}>Phát lại bài gần nhất</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={styles.chip} onPress={resetLocationSource}>
+                                <Text style={styles.chipText}>GPS thật</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                )}
+
                 {/* Logout */}
                 <TouchableOpacity style={styles.logoutButton} onPress={handleLogout} activeOpacity={0.8}>
                     <Ionicons name="log-out-outline" size={22} color={Colors.danger} />
@@ -176,6 +589,73 @@ const styles = StyleSheet.create({
     rpIcon: { fontSize: 36, marginRight: Spacing.md },
     rpValue: { fontSize: FontSize.xl, fontWeight: '700', color: Colors.rpGem },
     rpLabel: { fontSize: FontSize.xs, color: Colors.textSecondary },
+    settingsCard: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.lg,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.xl,
+    },
+    settingsTitle: { fontSize: FontSize.lg, fontWeight: '700', color: Colors.text, marginBottom: Spacing.sm },
+    recordRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: Spacing.xs,
+    },
+    recordLabel: { flex: 1, fontSize: FontSize.md, fontWeight: '600', color: Colors.text },
+    recordValue: { fontSize: FontSize.md, fontWeight: '700', color: Colors.primary, marginRight: Spacing.md },
+    recordDate: { minWidth: 80, textAlign: 'right', fontSize: FontSize.xs, color: Colors.textSecondary },
+    settingRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: Spacing.sm,
+    },
+    settingLabel: { fontSize: FontSize.md, fontWeight: '600', color: Colors.text },
+    settingHint: { fontSize: FontSize.xs, color: Colors.textSecondary, marginTop: 2 },
+    bodyRow: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        marginTop: Spacing.md,
+    },
+    bodyField: { flex: 1 },
+    bodyLabel: { fontSize: FontSize.xs, fontWeight: '600', color: Colors.textSecondary, marginBottom: 4 },
+    bodyInput: {
+        height: 44,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        borderRadius: BorderRadius.md,
+        paddingHorizontal: Spacing.sm,
+        fontSize: FontSize.md,
+        color: Colors.text,
+        backgroundColor: Colors.background,
+    },
+    bodySaveButton: {
+        alignItems: 'center',
+        paddingVertical: Spacing.sm,
+        borderRadius: BorderRadius.md,
+        backgroundColor: Colors.primary,
+    },
+    bodySaveText: { fontSize: FontSize.md, fontWeight: '700', color: Colors.textOnPrimary },
+    chipRow: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: Spacing.sm,
+        paddingVertical: Spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.xs,
+        borderRadius: BorderRadius.full,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.background,
+    },
+    chipActive: {
+        backgroundColor: Colors.primary,
+        borderColor: Colors.primary,
+    },
+    chipText: { fontSize: FontSize.sm, fontWeight: '600', color: Colors.textSecondary },
+    chipTextActive: { color: Colors.textOnPrimary },
     logoutButton: {
         flexDirection: 'row',
         alignItems: 'center',
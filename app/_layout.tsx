@@ -37,6 +37,14 @@ export default function RootLayout() {
           name="workout-summary"
           options={{ presentation: 'modal' }}
         />
+        <Stack.Screen
+          name="manual-workout"
+          options={{ presentation: 'modal' }}
+        />
+        <Stack.Screen
+          name="interval-builder"
+          options={{ presentation: 'modal' }}
+        />
       </Stack>
       <RootNavigator />
       <StatusBar style="dark" />
@@ -0,0 +1,444 @@
+import { BorderRadius, Colors, FontSize, Shadow, Spacing } from '@/constants/theme';
+import { DEFAULT_PLAN, DEFAULT_RUN_WALK, IntervalPlan, IntervalService, IntervalStep, StepLength } from '@/services/IntervalService';
+import { TrackingMode } from '@/services/WorkoutJournalService';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+    Alert,
+    KeyboardAvoidingView, Platform,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text, TextInput, TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const MAX_REPEATS = 30;
+// Shown when an optional step is switched back on
+const FALLBACK_WARMUP: StepLength = { type: 'time', seconds: 600 };
+const FALLBACK_RECOVERY: StepLength = { type: 'time', seconds: 90 };
+const FALLBACK_COOLDOWN: StepLength = { type: 'time', seconds: 300 };
+
+type LengthForm = {
+    enabled: boolean;
+    type: StepLength['type'];
+    value: string;            // Meters, or m:ss
+};
+
+function formatClock(sec: number): string {
+    return `${Math.floor(sec / 60)}:${String(Math.round(sec % 60)).padStart(2, '0')}`;
+}
+
+/**
+ * "m:ss" or whole minutes to seconds; null if it isn't a positive duration
+ */
+function parseClock(value: string): number | null {
+    const match = value.trim().match(/^(\d+)(?::(\d{1,2}))?$/);
+    if (!match) return null;
+    const sec = parseInt(match[1]) * 60 + (match[2] ? parseInt(match[2]) : 0);
+    return sec > 0 ? sec : null;
+}
+
+function toForm(length: StepLength | null, fallback: StepLength): LengthForm {
+    const l = length ?? fallback;
+    return {
+        enabled: length !== null,
+        type: l.type,
+        value: l.type === 'distance' ? String(l.meters) : formatClock(l.seconds),
+    };
+}
+
+function fromForm(form: LengthForm): StepLength | null {
+    if (form.type === 'distance') {
+        const meters = parseInt(form.value);
+        return meters > 0 ? { type: 'distance', meters } : null;
+    }
+    const seconds = parseClock(form.value);
+    return seconds ? { type: 'time', seconds } : null;
+}
+
+export default function IntervalBuilderScreen() {
+    // Run/walk is the same engine with only two alternating timed steps
+    const { type } = useLocalSearchParams<{ type?: 'runwalk' }>();
+    const [isRunWalk, setIsRunWalk] = useState(type === 'runwalk');
+    const [runTime, setRunTime] = useState(formatClock(DEFAULT_RUN_WALK.runSec));
+    const [walkTime, setWalkTime] = useState(formatClock(DEFAULT_RUN_WALK.walkSec));
+    const [runWalkRepeats, setRunWalkRepeats] = useState(DEFAULT_RUN_WALK.repeats);
+    const [warmup, setWarmup] = useState<LengthForm>(toForm(DEFAULT_PLAN.warmup, FALLBACK_WARMUP));
+    const [work, setWork] = useState<LengthForm>(toForm(DEFAULT_PLAN.work, DEFAULT_PLAN.work));
+    const [recovery, setRecovery] = useState<LengthForm>(toForm(DEFAULT_PLAN.recovery, FALLBACK_RECOVERY));
+    const [cooldown, setCooldown] = useState<LengthForm>(toForm(DEFAULT_PLAN.cooldown, FALLBACK_COOLDOWN));
+    const [repeats, setRepeats] = useState(DEFAULT_PLAN.repeats);
+    const [pace, setPace] = useState('');
+    const [mode, setMode] = useState<TrackingMode>('gps');
+
+    // Start from the last plan the runner used
+    useEffect(() => {
+        IntervalService.getLastPlan().then(plan => {
+            setWarmup(toForm(plan.warmup, FALLBACK_WARMUP));
+            setWork(toForm(plan.work, plan.work));
+            setRecovery(toForm(plan.recovery, FALLBACK_RECOVERY));
+            setCooldown(toForm(plan.cooldown, FALLBACK_COOLDOWN));
+            setRepeats(plan.repeats);
+            setPace(plan.workPaceSecPerKm ? formatClock(plan.workPaceSecPerKm) : '');
+        });
+        IntervalService.getLastRunWalk().then(plan => {
+            setRunTime(formatClock(plan.runSec));
+            setWalkTime(formatClock(plan.walkSec));
+            setRunWalkRepeats(plan.repeats);
+        });
+    }, []);
+
+    const startWorkout = (steps: IntervalStep[]) => {
+        router.replace({
+            pathname: '/workout',
+            params: { mode, plan: JSON.stringify(steps) },
+        });
+    };
+
+    const handleStartRunWalk = async () => {
+        const runSec = parseClock(runTime);
+        const walkSec = parseClock(walkTime);
+        if (!runSec || !walkSec) {
+            Alert.alert('Lỗi', 'Thời gian chạy và đi bộ có dạng phút:giây, ví dụ 1:30');
+            return;
+        }
+        const plan = { runSec, walkSec, repeats: runWalkRepeats };
+        await IntervalService.saveLastRunWalk(plan);
+        startWorkout(IntervalService.expandRunWalk(plan));
+    };
+
+    const handleStart = async () => {
+        const workLength = fromForm(work);
+        if (!workLength) {
+            Alert.alert('Lỗi', 'Vui lòng nhập độ dài bước chạy nhanh');
+            return;
+        }
+        const optional = [warmup, recovery, cooldown].map(f => (f.enabled ? fromForm(f) : null));
+        if ([warmup, recovery, cooldown].some((f, i) => f.enabled && !optional[i])) {
+            Alert.alert('Lỗi', 'Vui lòng nhập độ dài hợp lệ cho các bước đã bật');
+            return;
+        }
+        const paceSec = pace.trim() ? parseClock(pace) : null;
+        if (pace.trim() && !paceSec) {
+            Alert.alert('Lỗi', 'Pace mục tiêu có dạng phút:giây, ví dụ 4:30');
+            return;
+        }
+
+        const plan: IntervalPlan = {
+            warmup: optional[0],
+            repeats,
+            work: workLength,
+            workPaceSecPerKm: paceSec,
+            recovery: optional[1],
+            cooldown: optional[2],
+        };
+        await IntervalService.saveLastPlan(plan);
+        startWorkout(IntervalService.expandPlan(plan));
+    };
+
+    const renderRepeats = (value: number, setValue: (update: (r: number) => number) => void) => (
+        <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+                <Text style={styles.label}>Số lần lặp</Text>
+                <View style={styles.stepper}>
+                    <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => setValue(r => Math.max(1, r - 1))}
+                    >
+                        <Ionicons name="remove" size={20} color={Colors.text} />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>{value}</Text>
+                    <TouchableOpacity
+                        style={styles.stepperButton}
+                        onPress={() => setValue(r => Math.min(MAX_REPEATS, r + 1))}
+                    >
+                        <Ionicons name="add" size={20} color={Colors.text} />
+                    </TouchableOpacity>
+                </View>
+            </View>
+        </View>
+    );
+
+    const renderClock = (title: string, value: string, setValue: (v: string) => void) => (
+        <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+                <Text style={styles.label}>{title}</Text>
+                <TextInput
+                    style={[styles.lengthInput, styles.paceInput]}
+                    value={value}
+                    onChangeText={setValue}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="1:00"
+                    placeholderTextColor={Colors.textLight}
+                />
+            </View>
+        </View>
+    );
+
+    const renderLength = (
+        title: string,
+        form: LengthForm,
+        setForm: (f: LengthForm) => void,
+        optional: boolean
+    ) => (
+        <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+                <Text style={styles.label}>{title}</Text>
+                {optional && (
+                    <Switch
+                        value={form.enabled}
+                        onValueChange={(enabled) => setForm({ ...form, enabled })}
+                        trackColor={{ true: Colors.primary, false: Colors.surface }}
+                    />
+                )}
+            </View>
+            {form.enabled && (
+                <View style={styles.lengthRow}>
+                    {(['distance', 'time'] as const).map(type => (
+                        <TouchableOpacity
+                            key={type}
+                            style={[styles.chip, form.type === type && styles.chipActive]}
+                            onPress={() => setForm({ ...form, type, value: type === 'distance' ? '400' : '1:00' })}
+                        >
+                            <Text style={[styles.chipText, form.type === type && styles.chipTextActive]}>
+                                {type === 'distance' ? 'Mét' : 'Phút:giây'}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                    <TextInput
+                        style={styles.lengthInput}
+                        value={form.value}
+                        onChangeText={(value) => setForm({ ...form, value })}
+                        keyboardType={form.type === 'distance' ? 'number-pad' : 'numbers-and-punctuation'}
+                        placeholder={form.type === 'distance' ? '400' : '1:30'}
+                        placeholderTextColor={Colors.textLight}
+                    />
+                </View>
+            )}
+        </View>
+    );
+
+    return (
+        <SafeAreaView style={styles.container} edges={['top']}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+                    <Ionicons name="close" size={24} color={Colors.text} />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>{isRunWalk ? 'Chạy xen kẽ đi bộ' : 'Bài tập interval'}</Text>
+                <View style={{ width: 40 }} />
+            </View>
+
+            <KeyboardAvoidingView
+                style={{ flex: 1 }}
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            >
+                <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                    {/* Workout type */}
+                    <View style={[styles.lengthRow, { marginTop: 0, marginBottom: Spacing.md }]}>
+                        {[false, true].map(runWalk => (
+                            <TouchableOpacity
+                                key={String(runWalk)}
+                                style={[styles.chip, isRunWalk === runWalk && styles.chipActive]}
+                                onPress={() => setIsRunWalk(runWalk)}
+                            >
+                                <Text style={[styles.chipText, isRunWalk === runWalk && styles.chipTextActive]}>
+                                    {runWalk ? 'Chạy / đi bộ' : 'Interval'}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    {isRunWalk ? (
+                        <>
+                            <Text style={styles.hint}>
+                                Chạy nhẹ rồi đi bộ hồi sức, lặp lại. Điện thoại rung và nhắc bạn mỗi khi đổi, và nhắc lại nếu bạn chưa đổi nhịp.
+                            </Text>
+                            {renderClock('Chạy (phút:giây)', runTime, setRunTime)}
+                            {renderClock('Đi bộ (phút:giây)', walkTime, setWalkTime)}
+                            {renderRepeats(runWalkRepeats, setRunWalkRepeats)}
+                        </>
+                    ) : (
+                        <>
+                            <Text style={styles.hint}>
+                                Khởi động, lặp lại các đoạn chạy nhanh xen kẽ hồi phục, rồi thả lỏng. Điện thoại rung và đọc to mỗi khi chuyển bước.
+                            </Text>
+
+                            {renderLength('Khởi động', warmup, setWarmup, true)}
+                            {renderRepeats(repeats, setRepeats)}
+                            {renderLength('Chạy nhanh', work, setWork, false)}
+                            <View style={styles.section}>
+                                <View style={styles.sectionHeader}>
+                                    <Text style={styles.label}>Pace mục tiêu (không bắt buộc)</Text>
+                                    <TextInput
+                                        style={[styles.lengthInput, styles.paceInput]}
+                                        value={pace}
+                                        onChangeText={setPace}
+                                        keyboardType="numbers-and-punctuation"
+                                        placeholder="4:30"
+                                        placeholderTextColor={Colors.textLight}
+                                    />
+                                </View>
+                            </View>
+
+                            {renderLength('Hồi phục giữa các lần', recovery, setRecovery, true)}
+                            {renderLength('Thả lỏng', cooldown, setCooldown, true)}
+                        </>
+                    )}
+
+                    {/* Where */}
+                    <View style={[styles.lengthRow, { marginBottom: Spacing.md }]}>
+                        {(['gps', 'treadmill'] as const).map(m => (
+                            <TouchableOpacity
+                                key={m}
+                                style={[styles.chip, mode === m && styles.chipActive]}
+                                onPress={() => setMode(m)}
+                            >
+                                <Text style={[styles.chipText, mode === m && styles.chipTextActive]}>
+                                    {m === 'gps' ? 'Ngoài trời' : 'Máy chạy'}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <TouchableOpacity
+                        style={styles.button}
+                        onPress={isRunWalk ? handleStartRunWalk : handleStart}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.buttonText}>BẮT ĐẦU</Text>
+                    </TouchableOpacity>
+                </ScrollView>
+            </KeyboardAvoidingView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: Colors.background },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: Colors.borderLight,
+    },
+    backBtn: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        backgroundColor: Colors.backgroundSecondary,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        flex: 1,
+        textAlign: 'center',
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    content: {
+        padding: Spacing.lg,
+        paddingBottom: Spacing.xxl,
+    },
+    hint: {
+        fontSize: FontSize.sm,
+        color: Colors.textSecondary,
+        marginBottom: Spacing.lg,
+    },
+    section: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.md,
+        marginBottom: Spacing.md,
+    },
+    sectionHeader: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    },
+    label: {
+        fontSize: FontSize.sm,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    lengthRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+        marginTop: Spacing.sm,
+    },
+    chip: {
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.xs,
+        borderRadius: BorderRadius.full,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        backgroundColor: Colors.background,
+    },
+    chipActive: {
+        backgroundColor: Colors.primary,
+        borderColor: Colors.primary,
+    },
+    chipText: { fontSize: FontSize.sm, fontWeight: '600', color: Colors.textSecondary },
+    chipTextActive: { color: Colors.textOnPrimary },
+    lengthInput: {
+        flex: 1,
+        height: 40,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        borderRadius: BorderRadius.md,
+        paddingHorizontal: Spacing.sm,
+        fontSize: FontSize.md,
+        color: Colors.text,
+        backgroundColor: Colors.background,
+        textAlign: 'center',
+    },
+    paceInput: {
+        flex: 0,
+        width: 80,
+    },
+    stepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+    },
+    stepperButton: {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        backgroundColor: Colors.background,
+        borderWidth: 1,
+        borderColor: Colors.border,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    stepperValue: {
+        minWidth: 32,
+        textAlign: 'center',
+        fontSize: FontSize.lg,
+        fontWeight: '800',
+        color: Colors.text,
+    },
+    button: {
+        width: '100%',
+        height: 56,
+        backgroundColor: Colors.primary,
+        borderRadius: BorderRadius.xl,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginTop: Spacing.sm,
+        ...Shadow.button,
+    },
+    buttonText: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.textOnPrimary,
+        letterSpacing: 1,
+    },
+});
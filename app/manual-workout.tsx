@@ -0,0 +1,374 @@
+import { BorderRadius, Colors, FontSize, Shadow, Spacing } from '@/constants/theme';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/lib/supabase';
+import { EFFORT_LABELS } from '@/services/BestEffortsService';
+import { CaloriesService } from '@/services/CaloriesService';
+import { WorkoutService } from '@/services/WorkoutService';
+import { Ionicons } from '@expo/vector-icons';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView, Platform,
+    ScrollView,
+    StyleSheet,
+    Text, TextInput, TouchableOpacity,
+    View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+// How far back a manual run can be logged
+const MAX_DAYS_BACK = 30;
+
+function startOfDay(d: Date): Date {
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+function parseNumber(value: string): number {
+    const n = parseFloat(value.replace(',', '.'));
+    return Number.isFinite(n) ? n : 0;
+}
+
+export default function ManualWorkoutScreen() {
+    const { user, refreshProfile } = useAuth();
+    // With an id the screen edits that saved workout instead of logging a new one
+    const { id } = useLocalSearchParams<{ id?: string }>();
+    const isEdit = !!id;
+    const [editDate, setEditDate] = useState<string | null>(null);
+    const [daysAgo, setDaysAgo] = useState(0);
+    const [distance, setDistance] = useState('');
+    const [hours, setHours] = useState('');
+    const [minutes, setMinutes] = useState('');
+    const [seconds, setSeconds] = useState('');
+    const [notes, setNotes] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!id) return;
+        supabase
+            .from('workouts')
+            .select('date, distance_km, duration_sec, notes')
+            .eq('id', id)
+            .single()
+            .then(({ data, error }) => {
+                if (error || !data) {
+                    console.error('Error loading workout:', error);
+                    return;
+                }
+                const sec = data.duration_sec || 0;
+                setEditDate(data.date);
+                setDistance(String(Number(data.distance_km)));
+                setHours(sec >= 3600 ? String(Math.floor(sec / 3600)) : '');
+                setMinutes(String(Math.floor((sec % 3600) / 60)));
+                setSeconds(String(sec % 60));
+                setNotes(data.notes ?? '');
+            });
+    }, [id]);
+
+    const day = startOfDay(new Date());
+    day.setDate(day.getDate() - daysAgo);
+    const dateLabel = editDate
+        ? new Date(editDate + 'T00:00:00').toLocaleDateString('vi-VN', { weekday: 'long', day: 'numeric', month: 'numeric' })
+        : daysAgo === 0
+        ? 'Hôm nay'
+        : daysAgo === 1
+            ? 'Hôm qua'
+            : day.toLocaleDateString('vi-VN', { weekday: 'long', day: 'numeric', month: 'numeric' });
+
+    const distanceKm = parseNumber(distance);
+    const durationSec = Math.round(parseNumber(hours) * 3600 + parseNumber(minutes) * 60 + parseNumber(seconds));
+
+    const handleSave = async () => {
+        if (!user || saving) return;
+        if (distanceKm <= 0 || distanceKm > 200) {
+            Alert.alert('Lỗi', 'Vui lòng nhập quãng đường hợp lệ');
+            return;
+        }
+        if (durationSec <= 0) {
+            Alert.alert('Lỗi', 'Vui lòng nhập thời gian chạy');
+            return;
+        }
+
+        if (id) {
+            setSaving(true);
+            const { error } = await WorkoutService.updateWorkout(user.id, id, {
+                distanceKm,
+                durationSec,
+                notes: notes.trim() || null,
+            });
+            setSaving(false);
+            if (error) {
+                Alert.alert('Lỗi', error.message || 'Không thể cập nhật bài tập');
+                return;
+            }
+            router.back();
+            return;
+        }
+
+        // Today's runs finish now; past runs are placed at noon of the chosen day
+        const finished = daysAgo === 0 ? new Date() : new Date(day.getTime() + 12 * 3600 * 1000);
+        const started = new Date(finished.getTime() - durationSec * 1000);
+
+        setSaving(true);
+        try {
+            const { streak, records } = await WorkoutService.saveWorkout(user.id, {
+                distanceKm,
+                durationSec,
+                elapsedSec: durationSec,
+                calories: CaloriesService.forDistance(distanceKm, durationSec),
+                routeGeoJSON: null,
+                startedAt: started.toISOString(),
+                finishedAt: finished.toISOString(),
+                source: 'manual',
+                notes: notes.trim() || null,
+            });
+            await refreshProfile();
+
+            const lines = [`Đã lưu ${distanceKm.toFixed(2)} km.`];
+            if (streak?.streakUpdated) lines.push(`🔥 Chuỗi: ${streak.newStreak} ngày!`);
+            if (streak && streak.penaltyCleared > 0) lines.push(`✅ Đã xoá ${streak.penaltyCleared.toFixed(1)} km phạt!`);
+            if (streak && streak.rpEarned > 0) lines.push(`💎 +${streak.rpEarned} RP`);
+            if (records.length > 0) {
+                lines.push(`🏅 Kỷ lục mới: ${records.map(r => EFFORT_LABELS[r.effort.key]).join(', ')}`);
+            }
+            Alert.alert('Hoàn thành! 🎉', lines.join('\n'), [{ text: 'OK', onPress: () => router.back() }]);
+        } catch (error: any) {
+            console.error('Error saving manual workout:', error);
+            Alert.alert('Lỗi', error.message || 'Không thể lưu bài tập');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <SafeAreaView style={styles.container} edges={['top']}>
+            {/* Header */}
+            <View style={styles.header}>
+                <TouchableOpacity style={styles.backBtn} onPress={() => router.back()}>
+                    <Ionicons name="close" size={24} color={Colors.text} />
+                </TouchableOpacity>
+                <Text style={styles.headerTitle}>{isEdit ? 'Sửa bài chạy' : 'Nhập bài chạy thủ công'}</Text>
+                <View style={{ width: 40 }} />
+            </View>
+
+            <KeyboardAvoidingView
+                style={{ flex: 1 }}
+                behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            >
+                <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+                    <Text style={styles.hint}>
+                        {isEdit
+                            ? 'Kỷ lục cá nhân sẽ được tính lại. Chuỗi và RP đã nhận không thay đổi.'
+                            : 'Dùng cho máy chạy bộ hoặc khi không có GPS. Bài chạy sẽ được đánh dấu là nhập thủ công.'}
+                    </Text>
+
+                    {/* Date (fixed when editing — the streak was credited to that day) */}
+                    <Text style={styles.label}>Ngày</Text>
+                    {isEdit ? (
+                        <View style={styles.dateRow}>
+                            <Text style={styles.dateText}>{dateLabel}</Text>
+                        </View>
+                    ) : (
+                        <View style={styles.dateRow}>
+                            <TouchableOpacity
+                                style={styles.dateArrow}
+                                onPress={() => setDaysAgo(d => Math.min(MAX_DAYS_BACK, d + 1))}
+                                disabled={daysAgo >= MAX_DAYS_BACK}
+                            >
+                                <Ionicons name="chevron-back" size={22} color={daysAgo >= MAX_DAYS_BACK ? Colors.textLight : Colors.text} />
+                            </TouchableOpacity>
+                            <Text style={styles.dateText}>{dateLabel}</Text>
+                            <TouchableOpacity
+                                style={styles.dateArrow}
+                                onPress={() => setDaysAgo(d => Math.max(0, d - 1))}
+                                disabled={daysAgo === 0}
+                            >
+                                <Ionicons name="chevron-forward" size={22} color={daysAgo === 0 ? Colors.textLight : Colors.text} />
+                            </TouchableOpacity>
+                        </View>
+                    )}
+
+                    {/* Distance */}
+                    <Text style={styles.label}>Quãng đường (km)</Text>
+                    <TextInput
+                        style={styles.input}
+                        placeholder="0.00"
+                        placeholderTextColor={Colors.textLight}
+                        value={distance}
+                        onChangeText={setDistance}
+                        keyboardType="decimal-pad"
+                    />
+
+                    {/* Duration */}
+                    <Text style={styles.label}>Thời gian</Text>
+                    <View style={styles.durationRow}>
+                        {[
+                            { value: hours, set: setHours, unit: 'giờ' },
+                            { value: minutes, set: setMinutes, unit: 'phút' },
+                            { value: seconds, set: setSeconds, unit: 'giây' },
+                        ].map(({ value, set, unit }) => (
+                            <View key={unit} style={styles.durationField}>
+                                <TextInput
+                                    style={[styles.input, styles.durationInput]}
+                                    placeholder="0"
+                                    placeholderTextColor={Colors.textLight}
+                                    value={value}
+                                    onChangeText={set}
+                                    keyboardType="number-pad"
+                                    maxLength={3}
+                                />
+                                <Text style={styles.durationUnit}>{unit}</Text>
+                            </View>
+                        ))}
+                    </View>
+
+                    {/* Notes */}
+                    <Text style={styles.label}>Ghi chú (không bắt buộc)</Text>
+                    <TextInput
+                        style={[styles.input, styles.notesInput]}
+                        placeholder="VD: Máy chạy bộ ở phòng gym"
+                        placeholderTextColor={Colors.textLight}
+                        value={notes}
+                        onChangeText={setNotes}
+                        multiline
+                        maxLength={280}
+                    />
+
+                    <TouchableOpacity
+                        style={[styles.button, saving && styles.buttonDisabled]}
+                        onPress={handleSave}
+                        disabled={saving}
+                        activeOpacity={0.8}
+                    >
+                        {saving ? (
+                            <ActivityIndicator color="#fff" />
+                        ) : (
+                            <Text style={styles.buttonText}>LƯU BÀI CHẠY</Text>
+                        )}
+                    </TouchableOpacity>
+                </ScrollView>
+            </KeyboardAvoidingView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: { flex: 1, backgroundColor: Colors.background },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderBottomWidth: 1,
+        borderBottomColor: Colors.borderLight,
+    },
+    backBtn: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        backgroundColor: Colors.backgroundSecondary,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    headerTitle: {
+        flex: 1,
+        textAlign: 'center',
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    content: {
+        padding: Spacing.lg,
+        paddingBottom: Spacing.xxl,
+    },
+    hint: {
+        fontSize: FontSize.sm,
+        color: Colors.textSecondary,
+        marginBottom: Spacing.lg,
+    },
+    label: {
+        fontSize: FontSize.sm,
+        fontWeight: '700',
+        color: Colors.text,
+        marginBottom: Spacing.sm,
+    },
+    dateRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.xl,
+        borderWidth: 2,
+        borderColor: Colors.border,
+        height: 56,
+        paddingHorizontal: Spacing.sm,
+        marginBottom: Spacing.md,
+    },
+    dateArrow: {
+        width: 40,
+        height: 40,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    dateText: {
+        fontSize: FontSize.md,
+        fontWeight: '600',
+        color: Colors.text,
+        textTransform: 'capitalize',
+    },
+    input: {
+        width: '100%',
+        height: 56,
+        borderWidth: 2,
+        borderColor: Colors.border,
+        borderRadius: BorderRadius.xl,
+        paddingHorizontal: Spacing.lg,
+        fontSize: FontSize.md,
+        color: Colors.text,
+        backgroundColor: Colors.backgroundSecondary,
+        marginBottom: Spacing.md,
+    },
+    durationRow: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+    },
+    durationField: {
+        flex: 1,
+        alignItems: 'center',
+    },
+    durationInput: {
+        textAlign: 'center',
+        paddingHorizontal: Spacing.sm,
+        marginBottom: 4,
+    },
+    durationUnit: {
+        fontSize: FontSize.xs,
+        color: Colors.textSecondary,
+        marginBottom: Spacing.md,
+    },
+    notesInput: {
+        height: 96,
+        paddingTop: Spacing.md,
+        textAlignVertical: 'top',
+    },
+    button: {
+        width: '100%',
+        height: 56,
+        backgroundColor: Colors.primary,
+        borderRadius: BorderRadius.xl,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginTop: Spacing.sm,
+        ...Shadow.button,
+    },
+    buttonDisabled: {
+        backgroundColor: Colors.primaryLight,
+    },
+    buttonText: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.textOnPrimary,
+        letterSpacing: 1,
+    },
+});
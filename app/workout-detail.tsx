@@ -1,12 +1,30 @@
-import { SafeMapView, SafePolyline } from '@/components/SafeMapView';
+import { ElevationChart } from '@/components/ElevationChart';
+import { PaceChart } from '@/components/PaceChart';
+import {
+    averageSpeed,
+    PaceLegend,
+    RouteHighlightMarker,
+    RouteMarkers,
+    SafeMapView,
+    SafePolyline,
+} from '@/components/SafeMapView';
+import { IntervalsTable, RunWalkBreakdown } from '@/components/IntervalsTable';
+import { SplitsTable } from '@/components/SplitsTable';
 import { BorderRadius, Colors, FontSize, Shadow, Spacing } from '@/constants/theme';
+import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
+import { DiagnosticsService } from '@/services/DiagnosticsService';
+import { ExportService } from '@/services/ExportService';
+import { StepResult } from '@/services/IntervalService';
 import { LocationService } from '@/services/LocationService';
+import { Split, SplitsService } from '@/services/SplitsService';
+import { WorkoutService, WorkoutSource } from '@/services/WorkoutService';
 import { Ionicons } from '@expo/vector-icons';
-import { router, useLocalSearchParams } from 'expo-router';
-import React, { useEffect, useRef, useState } from 'react';
+import { router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import {
     ActivityIndicator,
+    Alert,
     ScrollView,
     StyleSheet,
     Text,
@@ -17,44 +35,146 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 interface Workout {
     id: string;
+    user_id: string;
     date: string;
     distance_km: number;
     duration_sec: number;
     calories: number;
     avg_speed_kmh: number | null;
     route_geojson: any;
+    started_at: string | null;
+    source: WorkoutSource | null;
+    notes: string | null;
+    splits: Split[] | null;
+    avg_cadence: number | null;
+    interval_results: StepResult[] | null;
 }
 
 export default function WorkoutDetailScreen() {
+    const { user } = useAuth();
     const { id } = useLocalSearchParams<{ id: string }>();
     const [workout, setWorkout] = useState<Workout | null>(null);
     const [loading, setLoading] = useState(true);
+    const [exporting, setExporting] = useState(false);
+    const [scrubIndex, setScrubIndex] = useState<number | null>(null);
     const mapRef = useRef<any>(null);
 
-    useEffect(() => {
-        if (!id) return;
-        supabase
-            .from('workouts')
-            .select('*')
-            .eq('id', id)
-            .single()
-            .then(({ data }) => {
-                setWorkout(data);
+    // Reload on focus so edits made on the manual-workout screen show up
+    useFocusEffect(
+        useCallback(() => {
+            if (!id) return;
+            Promise.all([
+                supabase
+                    .from('workouts')
+                    .select('*')
+                    .eq('id', id)
+                    .single(),
+                WorkoutService.loadRoute(id).catch((error) => {
+                    console.error('Error loading route:', error);
+                    return null;
+                }),
+            ]).then(([{ data }, route]) => {
+                setWorkout(data && { ...data, route_geojson: route });
                 setLoading(false);
             });
-    }, [id]);
+        }, [id])
+    );
+
+    const routeCoords = useMemo(
+        () => (workout?.route_geojson ? LocationService.fromGeoJSON(workout.route_geojson) : []),
+        [workout]
+    );
+
+    // Older workouts were saved without splits, so derive them from the route
+    const splits = useMemo(
+        () => workout?.splits ?? SplitsService.fromRoute(workout?.route_geojson),
+        [workout]
+    );
+
+    const routePoints = useMemo(() => LocationService.toLocationPoints(workout?.route_geojson), [workout]);
+    const routePauses = useMemo(() => LocationService.getPauses(workout?.route_geojson), [workout]);
 
-    const routeCoords = workout?.route_geojson
-        ? LocationService.fromGeoJSON(workout.route_geojson)
-        : [];
+    const elevation = useMemo(() => ({
+        profile: LocationService.getElevationProfile(routePoints),
+        ...LocationService.calculateElevation(routePoints),
+    }), [routePoints]);
 
-    // Center map on the middle of the route
-    const mapRegion = routeCoords.length > 0
-        ? {
-            latitude: routeCoords[Math.floor(routeCoords.length / 2)].latitude,
-            longitude: routeCoords[Math.floor(routeCoords.length / 2)].longitude,
+    const paceProfile = useMemo(
+        () => LocationService.getPaceProfile(routePoints, routePauses),
+        [routePoints, routePauses]
+    );
+    const pointSpeeds = useMemo(
+        () => LocationService.speedsAtPoints(paceProfile, routeCoords.length),
+        [paceProfile, routeCoords.length]
+    );
+    const kmMarkers = useMemo(
+        () => LocationService.getDistanceMarkers(routePoints, routePauses),
+        [routePoints, routePauses]
+    );
+    const scrubCoord = scrubIndex !== null ? routeCoords[scrubIndex] : undefined;
+
+    const hasDiagnostics = useMemo(() => DiagnosticsService.hasRecording(workout?.started_at ?? null), [workout]);
+    const canExport = routeCoords.length > 1 || hasDiagnostics;
+
+    const exportWorkout = async (format: 'gpx' | 'tcx' | 'diagnostics') => {
+        if (!workout || exporting) return;
+        setExporting(true);
+        try {
+            if (format === 'gpx') await ExportService.shareGPX(workout);
+            else if (format === 'tcx') await ExportService.shareTCX(workout);
+            else await DiagnosticsService.shareRecording(workout.started_at!);
+        } catch (error: any) {
+            console.error('Error exporting workout:', error);
+            Alert.alert('Lỗi', error.message || 'Không thể xuất bài tập');
+        } finally {
+            setExporting(false);
         }
-        : undefined;
+    };
+
+    const chooseExportFormat = () => {
+        Alert.alert('Xuất bài tập', 'Chọn định dạng tệp', [
+            { text: 'Hủy', style: 'cancel' },
+            ...(routeCoords.length > 1 ? [
+                { text: 'GPX', onPress: () => exportWorkout('gpx') },
+                { text: 'TCX (Garmin)', onPress: () => exportWorkout('tcx') },
+            ] : []),
+            ...(hasDiagnostics ? [{ text: 'Dữ liệu chẩn đoán', onPress: () => exportWorkout('diagnostics') }] : []),
+        ]);
+    };
+
+    const isOwner = !!workout && workout.user_id === user?.id;
+    const canEdit = isOwner && !WorkoutService.hasRoute(workout?.source);
+
+    const deleteWorkout = () => {
+        if (!workout || !user) return;
+        Alert.alert('Xoá bài tập', 'Bài tập sẽ bị xoá vĩnh viễn. Chuỗi và RP đã nhận không thay đổi.', [
+            { text: 'Hủy', style: 'cancel' },
+            {
+                text: 'Xoá',
+                style: 'destructive',
+                onPress: async () => {
+                    const { error } = await WorkoutService.deleteWorkout(user.id, workout.id);
+                    if (error) {
+                        Alert.alert('Lỗi', error.message);
+                        return;
+                    }
+                    router.back();
+                },
+            },
+        ]);
+    };
+
+    const showActions = () => {
+        Alert.alert('Bài tập', undefined, [
+            { text: 'Hủy', style: 'cancel' },
+            ...(canExport ? [{ text: 'Xuất tệp', onPress: chooseExportFormat }] : []),
+            ...(canEdit ? [{
+                text: 'Sửa',
+                onPress: () => router.push({ pathname: '/manual-workout', params: { id: workout!.id } }),
+            }] : []),
+            ...(isOwner ? [{ text: 'Xoá', style: 'destructive' as const, onPress: deleteWorkout }] : []),
+        ]);
+    };
 
     const formatTime = (s: number) => {
         const h = Math.floor(s / 3600);
@@ -106,31 +226,73 @@ export default function WorkoutDetailScreen() {
                     <Text style={styles.headerTitle}>Chi tiết bài tập</Text>
                     <Text style={styles.headerDate}>{dateLabel}</Text>
                 </View>
-                <View style={{ width: 40 }} />
+                {isOwner ? (
+                    <TouchableOpacity style={styles.backBtn} onPress={showActions} disabled={exporting}>
+                        {exporting
+                            ? <ActivityIndicator size="small" color={Colors.primary} />
+                            : <Ionicons name="ellipsis-horizontal" size={22} color={Colors.text} />}
+                    </TouchableOpacity>
+                ) : canExport ? (
+                    <TouchableOpacity style={styles.backBtn} onPress={chooseExportFormat} disabled={exporting}>
+                        {exporting
+                            ? <ActivityIndicator size="small" color={Colors.primary} />
+                            : <Ionicons name="share-outline" size={22} color={Colors.text} />}
+                    </TouchableOpacity>
+                ) : (
+                    <View style={{ width: 40 }} />
+                )}
             </View>
 
-            <ScrollView showsVerticalScrollIndicator={false}>
-                {/* Map */}
-                <View style={styles.mapCard}>
-                    {mapRegion && routeCoords.length > 1 ? (
-                        <SafeMapView
-                            ref={mapRef}
-                            style={styles.map}
-                            initialRegion={mapRegion}
-                        >
-                            <SafePolyline
-                                coordinates={routeCoords}
-                                strokeWidth={5}
-                                strokeColor={Colors.primary}
-                            />
-                        </SafeMapView>
-                    ) : (
-                        <View style={styles.noMap}>
-                            <Ionicons name="map-outline" size={48} color={Colors.textLight} />
-                            <Text style={styles.noMapText}>Không có dữ liệu bản đồ</Text>
-                        </View>
-                    )}
-                </View>
+            <ScrollView
+                showsVerticalScrollIndicator={false}
+                contentContainerStyle={styles.content}
+                scrollEnabled={scrubIndex === null}
+            >
+                {/* Map (manual and treadmill entries have no route) */}
+                {!WorkoutService.hasRoute(workout.source) ? (
+                    <View style={styles.manualCard}>
+                        <Ionicons
+                            name={workout.source === 'treadmill' ? 'footsteps-outline' : 'create-outline'}
+                            size={22}
+                            color={Colors.textSecondary}
+                        />
+                        <Text style={styles.manualText}>
+                            {workout.source === 'treadmill' ? 'Chạy trên máy' : 'Bài chạy nhập thủ công'}
+                        </Text>
+                    </View>
+                ) : (
+                    <View style={styles.mapCard}>
+                        {routeCoords.length > 1 ? (
+                            <SafeMapView
+                                ref={mapRef}
+                                style={styles.map}
+                                fitCoordinates={routeCoords}
+                            >
+                                <SafePolyline
+                                    coordinates={routeCoords}
+                                    strokeWidth={5}
+                                    strokeColor={Colors.primary}
+                                    speeds={paceProfile.length > 1 ? pointSpeeds : undefined}
+                                />
+                                <RouteMarkers coordinates={routeCoords} kmMarkers={kmMarkers} />
+                                {scrubCoord && (
+                                    <RouteHighlightMarker
+                                        latitude={scrubCoord.latitude}
+                                        longitude={scrubCoord.longitude}
+                                    />
+                                )}
+                            </SafeMapView>
+                        ) : (
+                            <View style={styles.noMap}>
+                                <Ionicons name="map-outline" size={48} color={Colors.textLight} />
+                                <Text style={styles.noMapText}>Không có dữ liệu bản đồ</Text>
+                            </View>
+                        )}
+                        {routeCoords.length > 1 && paceProfile.length > 1 && (
+                            <PaceLegend avgSpeedMs={averageSpeed(pointSpeeds)} />
+                        )}
+                    </View>
+                )}
 
                 {/* Main distance */}
                 <View style={styles.distanceCard}>
@@ -140,6 +302,14 @@ export default function WorkoutDetailScreen() {
                     <Text style={styles.distanceLabel}>kilometers</Text>
                 </View>
 
+                {/* Notes */}
+                {!!workout.notes && (
+                    <View style={styles.notesCard}>
+                        <Ionicons name="chatbox-ellipses-outline" size={18} color={Colors.textSecondary} />
+                        <Text style={styles.notesText}>{workout.notes}</Text>
+                    </View>
+                )}
+
                 {/* Stats grid */}
                 <View style={styles.statsCard}>
                     <View style={styles.statRow}>
@@ -173,7 +343,38 @@ export default function WorkoutDetailScreen() {
                             label="Tốc độ km/h"
                         />
                     </View>
+                    {!!workout.avg_cadence && (
+                        <>
+                            <View style={styles.statRowBorder} />
+                            <View style={styles.statRow}>
+                                <StatItem
+                                    icon="footsteps-outline"
+                                    value={String(workout.avg_cadence)}
+                                    label="Bước/phút"
+                                />
+                            </View>
+                        </>
+                    )}
                 </View>
+
+                {/* Pace */}
+                <PaceChart samples={paceProfile} onScrub={setScrubIndex} />
+
+                {/* Elevation */}
+                <ElevationChart
+                    profile={elevation.profile}
+                    gainM={elevation.gainM}
+                    lossM={elevation.lossM}
+                />
+
+                {/* Run/walk breakdown */}
+                <RunWalkBreakdown results={workout.interval_results ?? []} />
+
+                {/* Interval steps */}
+                <IntervalsTable results={workout.interval_results ?? []} />
+
+                {/* Splits */}
+                <SplitsTable splits={splits} />
             </ScrollView>
         </SafeAreaView>
     );
@@ -218,6 +419,7 @@ const styles = StyleSheet.create({
         color: Colors.textSecondary,
         marginTop: 2,
     },
+    content: { paddingBottom: Spacing.xxl },
     mapCard: {
         height: 280,
         margin: Spacing.lg,
@@ -226,6 +428,21 @@ const styles = StyleSheet.create({
         ...Shadow.md,
     },
     map: { flex: 1 },
+    manualCard: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: Spacing.sm,
+        margin: Spacing.lg,
+        paddingVertical: Spacing.md,
+        borderRadius: BorderRadius.xl,
+        backgroundColor: Colors.backgroundSecondary,
+    },
+    manualText: {
+        fontSize: FontSize.md,
+        fontWeight: '600',
+        color: Colors.textSecondary,
+    },
     noMap: {
         flex: 1,
         justifyContent: 'center',
@@ -251,11 +468,25 @@ const styles = StyleSheet.create({
         fontSize: FontSize.md,
         color: Colors.textSecondary,
     },
+    notesCard: {
+        flexDirection: 'row',
+        gap: Spacing.sm,
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.xl,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.md,
+        padding: Spacing.md,
+    },
+    notesText: {
+        flex: 1,
+        fontSize: FontSize.sm,
+        color: Colors.text,
+    },
     statsCard: {
         backgroundColor: Colors.backgroundSecondary,
         borderRadius: BorderRadius.xl,
         marginHorizontal: Spacing.lg,
-        marginBottom: Spacing.xxl,
+        marginBottom: Spacing.lg,
         ...Shadow.sm,
         overflow: 'hidden',
     },
@@ -1,17 +1,27 @@
-import { SafeMapView, SafePolyline } from '@/components/SafeMapView';
+import { averageSpeed, PaceLegend, RouteMarkers, SafeMapView, SafePolyline } from '@/components/SafeMapView';
+import { IntervalsTable, RunWalkBreakdown } from '@/components/IntervalsTable';
+import { SplitsTable } from '@/components/SplitsTable';
 import { BorderRadius, Colors, FontSize, Shadow, Spacing } from '@/constants/theme';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
+import { EFFORT_LABELS } from '@/services/BestEffortsService';
+import { CaloriesService } from '@/services/CaloriesService';
+import { StepResult } from '@/services/IntervalService';
 import { LocationService } from '@/services/LocationService';
-import { StreakService } from '@/services/StreakService';
-import { TargetService } from '@/services/TargetService';
+import { NewRecord } from '@/services/PersonalRecordsService';
+import { SplitsService } from '@/services/SplitsService';
+import { TreadmillService } from '@/services/TreadmillService';
+import { WorkoutJournalService } from '@/services/WorkoutJournalService';
+import { WorkoutService, WorkoutSource } from '@/services/WorkoutService';
 import { Ionicons } from '@expo/vector-icons';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
+    ActivityIndicator,
+    Alert,
     ScrollView,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     View,
 } from 'react-native';
@@ -22,71 +32,130 @@ export default function WorkoutSummaryScreen() {
     const params = useLocalSearchParams<{
         distance: string;
         duration: string;
+        elapsed?: string;
         calories: string;
         routeGeoJSON: string;
         startedAt: string;
+        finishedAt?: string;
+        source?: WorkoutSource;
+        steps?: string;
+        avgCadence?: string;
+        intervals?: string;
+        replay?: string;
     }>();
 
     const [saving, setSaving] = useState(false);
     const [saved, setSaved] = useState(false);
     const [rpEarned, setRpEarned] = useState(0);
     const [streakResult, setStreakResult] = useState<any>(null);
+    const [newRecords, setNewRecords] = useState<NewRecord[]>([]);
+    const [alreadySaved, setAlreadySaved] = useState(false);
 
-    const distance = parseFloat(params.distance || '0');
-    const duration = parseInt(params.duration || '0');
-    const calories = parseInt(params.calories || '0');
+    const estimatedDistance = parseFloat(params.distance || '0');
+    const duration = parseInt(params.duration || '0'); // Moving time, pauses excluded
+    const elapsed = params.elapsed ? parseInt(params.elapsed) : duration;
     const startedAt = params.startedAt || null;
-    const finishedAt = new Date().toISOString();
-    const routeGeoJSON = params.routeGeoJSON ? JSON.parse(params.routeGeoJSON) : null;
-    const routeCoords = routeGeoJSON ? LocationService.fromGeoJSON(routeGeoJSON) : [];
+    const finishedAt = params.finishedAt || new Date().toISOString();
+    const source: WorkoutSource = params.source || 'gps';
+    const isTreadmill = source === 'treadmill';
+    // Replayed tracks are for testing tracking; they earn no streak or RP
+    const isReplay = params.replay === '1';
+    // Recorded runs stay in the workout journal until they are saved
+    const isJournaled = (source === 'gps' || isTreadmill) && !isReplay;
+    const steps = parseInt(params.steps || '0');
+    const avgCadence = parseInt(params.avgCadence || '0');
+    const intervals = useMemo<StepResult[] | null>(
+        () => (params.intervals ? JSON.parse(params.intervals) : null),
+        [params.intervals]
+    );
 
-    const mapRegion = routeCoords.length > 0
-        ? {
-            latitude: routeCoords[Math.floor(routeCoords.length / 2)].latitude,
-            longitude: routeCoords[Math.floor(routeCoords.length / 2)].longitude,
-            latitudeDelta: 0.01,
-            longitudeDelta: 0.01,
-        }
-        : undefined;
+    // Treadmill distance is an estimate from steps — the runner confirms it before saving
+    const [distance, setDistance] = useState(estimatedDistance);
+    const [calories, setCalories] = useState(parseInt(params.calories || '0'));
+    const [distanceInput, setDistanceInput] = useState(estimatedDistance.toFixed(2));
+    const [calibratedStride, setCalibratedStride] = useState<number | null>(null);
+    const routeGeoJSON = useMemo(
+        () => (params.routeGeoJSON ? JSON.parse(params.routeGeoJSON) : null),
+        [params.routeGeoJSON]
+    );
+    const routeCoords = useMemo(
+        () => (routeGeoJSON ? LocationService.fromGeoJSON(routeGeoJSON) : []),
+        [routeGeoJSON]
+    );
+    const splits = useMemo(() => SplitsService.fromRoute(routeGeoJSON), [routeGeoJSON]);
+    const routePoints = useMemo(() => LocationService.toLocationPoints(routeGeoJSON), [routeGeoJSON]);
+    const routePauses = useMemo(() => LocationService.getPauses(routeGeoJSON), [routeGeoJSON]);
+    const pointSpeeds = useMemo(() => {
+        const profile = LocationService.getPaceProfile(routePoints, routePauses);
+        return profile.length > 1 ? LocationService.speedsAtPoints(profile, routePoints.length) : null;
+    }, [routePoints, routePauses]);
+    const kmMarkers = useMemo(
+        () => LocationService.getDistanceMarkers(routePoints, routePauses),
+        [routePoints, routePauses]
+    );
 
     useEffect(() => {
-        saveWorkout();
+        if (!isTreadmill && !isReplay) saveWorkout();
     }, []);
 
-    const saveWorkout = async () => {
+    const saveWorkout = async (distanceKm = distance, kcal = calories) => {
         if (!user || saving || saved) return;
         setSaving(true);
 
         try {
-            // Save workout to database
-            const { error } = await supabase.from('workouts').insert({
-                user_id: user.id,
-                distance_km: distance,
-                duration_sec: duration,
-                route_geojson: routeGeoJSON,
-                calories: calories,
-                date: new Date().toISOString().split('T')[0],
-                started_at: startedAt,
-                finished_at: finishedAt,
+            // Save workout, then update streak and earn RP
+            const { streak, records, duplicate } = await WorkoutService.saveWorkout(user.id, {
+                distanceKm,
+                durationSec: duration,
+                elapsedSec: elapsed,
+                calories: kcal,
+                routeGeoJSON,
+                startedAt,
+                finishedAt,
+                source,
+                splits,
+                avgCadence,
+                intervals,
             });
-
-            if (error) throw error;
-
-            // Update streak and earn RP
-            const todayTarget = await TargetService.getTodayTarget(user.id);
-            const result = await StreakService.updateStreakAfterWorkout(user.id, distance, todayTarget);
-            setRpEarned(result.rpEarned);
-            setStreakResult(result);
+            if (streak) {
+                setRpEarned(streak.rpEarned);
+                setStreakResult(streak);
+            }
+            setNewRecords(records);
+            setAlreadySaved(duplicate);
+            if (isJournaled) await WorkoutJournalService.clear(user.id);
 
             await refreshProfile();
             setSaved(true);
         } catch (error) {
             console.error('Error saving workout:', error);
+            if (isJournaled) {
+                Alert.alert('Lỗi', 'Chưa lưu được bài chạy. Bài chạy vẫn được giữ lại để lưu lần sau khi mở app.');
+            }
         } finally {
             setSaving(false);
         }
     };
 
+    /**
+     * Save the treadmill run with the distance shown on the machine; a correction
+     * refines the stride used for the next run
+     */
+    const confirmTreadmillDistance = async () => {
+        const corrected = parseFloat(distanceInput.replace(',', '.'));
+        if (!(corrected > 0)) {
+            Alert.alert('Lỗi', 'Vui lòng nhập khoảng cách hợp lệ');
+            return;
+        }
+        const kcal = CaloriesService.forDistance(corrected, duration);
+        setDistance(corrected);
+        setCalories(kcal);
+        if (Math.abs(corrected - estimatedDistance) >= 0.01) {
+            setCalibratedStride(await TreadmillService.calibrateStride(steps, corrected));
+        }
+        await saveWorkout(corrected, kcal);
+    };
+
     const formatTime = (s: number) => {
         const h = Math.floor(s / 3600);
         const m = Math.floor((s % 3600) / 60);
@@ -106,14 +175,72 @@ export default function WorkoutSummaryScreen() {
                 <View style={styles.header}>
                     <Text style={styles.emoji}>🎉</Text>
                     <Text style={styles.title}>Hoàn thành chạy!</Text>
+                    {source === 'import' && (
+                        <View style={styles.sourceBadge}>
+                            <Ionicons name="document-attach-outline" size={14} color={Colors.textSecondary} />
+                            <Text style={styles.sourceBadgeText}>Đã nhập từ tệp</Text>
+                        </View>
+                    )}
+                    {alreadySaved && (
+                        <View style={styles.sourceBadge}>
+                            <Ionicons name="copy-outline" size={14} color={Colors.textSecondary} />
+                            <Text style={styles.sourceBadgeText}>Đã lưu trước đó · không tính lại</Text>
+                        </View>
+                    )}
+                    {isReplay && (
+                        <View style={styles.sourceBadge}>
+                            <Ionicons name="play-back-outline" size={14} color={Colors.textSecondary} />
+                            <Text style={styles.sourceBadgeText}>Phát lại · không lưu</Text>
+                        </View>
+                    )}
+                    {isTreadmill && (
+                        <View style={styles.sourceBadge}>
+                            <Ionicons name="footsteps-outline" size={14} color={Colors.textSecondary} />
+                            <Text style={styles.sourceBadgeText}>Chạy trên máy · {steps} bước</Text>
+                        </View>
+                    )}
                 </View>
 
+                {/* Treadmill distance check */}
+                {isTreadmill && !saved && (
+                    <View style={styles.correctionCard}>
+                        <Text style={styles.correctionTitle}>Khoảng cách trên máy chạy</Text>
+                        <Text style={styles.correctionHint}>
+                            Ước tính từ số bước. Sửa theo số hiển thị trên máy để app đo chính xác hơn lần sau.
+                        </Text>
+                        <View style={styles.correctionRow}>
+                            <TextInput
+                                style={styles.correctionInput}
+                                value={distanceInput}
+                                onChangeText={setDistanceInput}
+                                keyboardType="decimal-pad"
+                                selectTextOnFocus
+                            />
+                            <Text style={styles.correctionUnit}>km</Text>
+                            <TouchableOpacity
+                                style={styles.correctionButton}
+                                onPress={confirmTreadmillDistance}
+                                disabled={saving}
+                            >
+                                {saving
+                                    ? <ActivityIndicator size="small" color={Colors.textOnPrimary} />
+                                    : <Text style={styles.correctionButtonText}>Lưu</Text>}
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                )}
+                {calibratedStride !== null && (
+                    <Text style={styles.calibrationNote}>
+                        Đã hiệu chỉnh sải chân: {calibratedStride.toFixed(2)} m
+                    </Text>
+                )}
+
                 {/* Map */}
-                {mapRegion && routeCoords.length > 1 && (
+                {routeCoords.length > 1 && (
                     <View style={styles.mapCard}>
                         <SafeMapView
                             style={styles.map}
-                            initialRegion={mapRegion}
+                            fitCoordinates={routeCoords}
                             scrollEnabled={false}
                             zoomEnabled={false}
                         >
@@ -121,8 +248,11 @@ export default function WorkoutSummaryScreen() {
                                 coordinates={routeCoords}
                                 strokeWidth={4}
                                 strokeColor={Colors.primary}
+                                speeds={pointSpeeds ?? undefined}
                             />
+                            <RouteMarkers coordinates={routeCoords} kmMarkers={kmMarkers} />
                         </SafeMapView>
+                        {pointSpeeds && <PaceLegend avgSpeedMs={averageSpeed(pointSpeeds)} />}
                     </View>
                 )}
 
@@ -138,6 +268,9 @@ export default function WorkoutSummaryScreen() {
                             <Ionicons name="time-outline" size={22} color={Colors.primary} />
                             <Text style={styles.statValue}>{formatTime(duration)}</Text>
                             <Text style={styles.statLabel}>Thời gian</Text>
+                            {elapsed > duration && (
+                                <Text style={styles.statSubLabel}>Tổng {formatTime(elapsed)}</Text>
+                            )}
                         </View>
                         <View style={styles.statItem}>
                             <Ionicons name="speedometer-outline" size={22} color={Colors.primary} />
@@ -149,9 +282,49 @@ export default function WorkoutSummaryScreen() {
                             <Text style={styles.statValue}>{calories}</Text>
                             <Text style={styles.statLabel}>Calories</Text>
                         </View>
+                        {avgCadence > 0 && (
+                            <View style={styles.statItem}>
+                                <Ionicons name="footsteps-outline" size={22} color={Colors.primary} />
+                                <Text style={styles.statValue}>{avgCadence}</Text>
+                                <Text style={styles.statLabel}>Bước/phút</Text>
+                            </View>
+                        )}
                     </View>
                 </View>
 
+                {/* New personal records */}
+                {newRecords.length > 0 && (
+                    <View style={styles.recordsCard}>
+                        <Text style={styles.recordsTitle}>Kỷ lục cá nhân mới! 🏅</Text>
+                        {newRecords.map(({ effort, previous }) => (
+                            <View key={effort.key} style={styles.recordRow}>
+                                <Text style={styles.recordLabel}>{EFFORT_LABELS[effort.key]}</Text>
+                                <Text style={styles.recordValue}>
+                                    {effort.key === 'longest'
+                                        ? `${(effort.distanceM / 1000).toFixed(2)} km`
+                                        : formatTime(effort.timeSec)}
+                                </Text>
+                                <Text style={styles.recordDelta}>
+                                    {!previous
+                                        ? 'Lần đầu'
+                                        : effort.key === 'longest'
+                                            ? `+${((effort.distanceM - previous.distanceM) / 1000).toFixed(2)} km`
+                                            : `−${formatTime(previous.timeSec - effort.timeSec)}`}
+                                </Text>
+                            </View>
+                        ))}
+                    </View>
+                )}
+
+                {/* Run/walk breakdown */}
+                <RunWalkBreakdown results={intervals ?? []} />
+
+                {/* Interval steps */}
+                <IntervalsTable results={intervals ?? []} />
+
+                {/* Splits */}
+                <SplitsTable splits={splits} />
+
                 {/* Rewards */}
                 {saved && streakResult && (
                     <View style={styles.rewardsCard}>
@@ -193,14 +366,16 @@ export default function WorkoutSummaryScreen() {
                     </View>
                 )}
 
-                {/* Done button */}
-                <TouchableOpacity
-                    style={styles.doneButton}
-                    onPress={() => router.replace('/(tabs)')}
-                    activeOpacity={0.8}
-                >
-                    <Text style={styles.doneText}>XONG</Text>
-                </TouchableOpacity>
+                {/* Done button (treadmill runs must be confirmed first) */}
+                {(!isTreadmill || saved) && (
+                    <TouchableOpacity
+                        style={styles.doneButton}
+                        onPress={() => router.replace('/(tabs)')}
+                        activeOpacity={0.8}
+                    >
+                        <Text style={styles.doneText}>XONG</Text>
+                    </TouchableOpacity>
+                )}
             </ScrollView>
         </SafeAreaView>
     );
@@ -219,6 +394,80 @@ const styles = StyleSheet.create({
         color: Colors.text,
         marginTop: Spacing.sm,
     },
+    sourceBadge: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        marginTop: Spacing.sm,
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.xs,
+        borderRadius: BorderRadius.full,
+        backgroundColor: Colors.backgroundSecondary,
+    },
+    sourceBadgeText: {
+        fontSize: FontSize.sm,
+        fontWeight: '600',
+        color: Colors.textSecondary,
+    },
+    correctionCard: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.lg,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.lg,
+    },
+    correctionTitle: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    correctionHint: {
+        fontSize: FontSize.sm,
+        color: Colors.textSecondary,
+        marginTop: Spacing.xs,
+        marginBottom: Spacing.md,
+    },
+    correctionRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: Spacing.sm,
+    },
+    correctionInput: {
+        flex: 1,
+        height: 48,
+        borderWidth: 2,
+        borderColor: Colors.border,
+        borderRadius: BorderRadius.lg,
+        paddingHorizontal: Spacing.md,
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+        backgroundColor: Colors.background,
+    },
+    correctionUnit: {
+        fontSize: FontSize.md,
+        color: Colors.textSecondary,
+    },
+    correctionButton: {
+        height: 48,
+        minWidth: 72,
+        paddingHorizontal: Spacing.lg,
+        borderRadius: BorderRadius.lg,
+        backgroundColor: Colors.primary,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    correctionButtonText: {
+        fontSize: FontSize.md,
+        fontWeight: '700',
+        color: Colors.textOnPrimary,
+    },
+    calibrationNote: {
+        fontSize: FontSize.sm,
+        color: Colors.textSecondary,
+        textAlign: 'center',
+        marginBottom: Spacing.lg,
+    },
     mapCard: {
         height: 200,
         marginHorizontal: Spacing.lg,
@@ -263,6 +512,49 @@ const styles = StyleSheet.create({
         color: Colors.textSecondary,
         marginTop: 2,
     },
+    statSubLabel: {
+        fontSize: FontSize.xs,
+        color: Colors.textLight,
+        marginTop: 2,
+    },
+    recordsCard: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        borderWidth: 2,
+        borderColor: Colors.accent,
+        padding: Spacing.lg,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.lg,
+    },
+    recordsTitle: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+        marginBottom: Spacing.md,
+    },
+    recordRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: Spacing.xs,
+    },
+    recordLabel: {
+        flex: 1,
+        fontSize: FontSize.md,
+        fontWeight: '600',
+        color: Colors.text,
+    },
+    recordValue: {
+        fontSize: FontSize.md,
+        fontWeight: '700',
+        color: Colors.primary,
+        marginRight: Spacing.md,
+    },
+    recordDelta: {
+        minWidth: 64,
+        textAlign: 'right',
+        fontSize: FontSize.sm,
+        color: Colors.textSecondary,
+    },
     rewardsCard: {
         backgroundColor: '#FFF8E1',
         borderRadius: BorderRadius.lg,
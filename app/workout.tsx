@@ -1,9 +1,19 @@
 import { SafeMapView, SafeMapViewRef, SafePolyline, UserLocationMarker } from '@/components/SafeMapView';
 import { BorderRadius, Colors, FontSize, Shadow, Spacing } from '@/constants/theme';
-import { LocationPoint, LocationService } from '@/services/LocationService';
-import { MotionService, MotionState } from '@/services/MotionService';
+import { useAuth } from '@/contexts/AuthContext';
+import { CaloriesService } from '@/services/CaloriesService';
+import { DiagnosticsService } from '@/services/DiagnosticsService';
+import { IntervalService, IntervalStatus, IntervalStep, STEP_LABELS } from '@/services/IntervalService';
+import { LocationPoint, LocationService, PauseInterval } from '@/services/LocationService';
+import { MotionService, MotionState, StepUpdate } from '@/services/MotionService';
+import { AppSettings, SettingsService } from '@/services/SettingsService';
+import { StreakService } from '@/services/StreakService';
+import { TargetService } from '@/services/TargetService';
+import { TreadmillService } from '@/services/TreadmillService';
+import { VoiceCoachService } from '@/services/VoiceCoachService';
+import { TrackingMode, WorkoutJournalService } from '@/services/WorkoutJournalService';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import React, { useEffect, useRef, useState } from 'react';
 import {
     Alert, AppState,
@@ -14,16 +24,33 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
+// No fix for this long means GPS has nothing new to report (distanceInterval not reached)
+const GPS_STALE_MS = 10000;
+// Treadmill step totals are journaled every this many steps
+const STEP_JOURNAL_INTERVAL = 20;
+
 export default function WorkoutScreen() {
+    const { resume, mode, plan } = useLocalSearchParams<{ resume?: string; mode?: TrackingMode; plan?: string }>();
+    const isTreadmill = mode === 'treadmill';
+    // Replaying a recorded track (developer settings) exercises tracking without saving a run
+    const isReplay = !isTreadmill && LocationService.isSimulated();
+    const { user } = useAuth();
     const [isRunning, setIsRunning] = useState(false);
     const [isPaused, setIsPaused] = useState(false);
+    const [isAutoPaused, setIsAutoPaused] = useState(false);
+    const [autoPauseEnabled, setAutoPauseEnabled] = useState(false);
     const [distance, setDistance] = useState(0); // km
     const [duration, setDuration] = useState(0); // seconds
     const [speed, setSpeed] = useState(0); // km/h
     const [calories, setCalories] = useState(0);
     const [motionState, setMotionState] = useState<MotionState>('stationary');
-    const [routePoints, setRoutePoints] = useState<LocationPoint[]>([]);
+    const [trackPoints, setTrackPoints] = useState<LocationPoint[]>([]); // Noise-filtered track
     const [mapRegion, setMapRegion] = useState<any>(null);
+    const [steps, setSteps] = useState(0); // Treadmill mode only
+    const [cadence, setCadence] = useState(0); // spm
+    const [voiceEnabled, setVoiceEnabled] = useState(false);
+    const [intervalSteps, setIntervalSteps] = useState<IntervalStep[] | null>(null);
+    const [intervalStatus, setIntervalStatus] = useState<IntervalStatus | null>(null);
 
     const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
     const startTimeRef = useRef<number>(0);
@@ -32,7 +59,30 @@ export default function WorkoutScreen() {
     const mapRef = useRef<SafeMapViewRef>(null);
     const lastLocationRef = useRef<LocationPoint | null>(null); // Latest GPS point for locate button
     const emaSpeedRef = useRef<number>(0); // Exponential moving average for smooth speed display
+    const trackFilterRef = useRef(LocationService.createTrackFilter());
+    const calorieCounterRef = useRef(CaloriesService.createCounter());
+    const pausesRef = useRef<PauseInterval[]>([]);
+    // Callbacks registered at start outlive renders, so pause state they read lives in refs
+    const isPausedRef = useRef(false);
+    const autoPausedRef = useRef(false);
+    const motionStateRef = useRef<MotionState>('stationary');
+    const stationarySinceRef = useRef<number | null>(null);
+    const autoPauseRef = useRef({ enabled: false, delaySec: 10 });
     const appStateRef = useRef(AppState.currentState);
+    // Steps counted while the clock runs and the detector's last total; on a treadmill
+    // they give the distance through the stride length
+    const stepsRef = useRef(0);
+    const stepTotalRef = useRef(0);
+    const journaledStepsRef = useRef(0);
+    const strideRef = useRef(1);
+    const unsubscribeStepsRef = useRef<(() => void) | null>(null);
+    const settingsRef = useRef<AppSettings | null>(null);
+    // Latest progress for the voice coach and interval engine, which are also fed from
+    // background fixes while no renders happen
+    const routeRef = useRef<LocationPoint[]>([]);
+    const trackRef = useRef<LocationPoint[]>([]);
+    const distanceRef = useRef(0);
+    const caloriesRef = useRef(0);
 
     // Handle app state changes (background/foreground)
     useEffect(() => {
@@ -52,31 +102,141 @@ export default function WorkoutScreen() {
 
     const updateDurationFromTime = () => {
         if (startTimeRef.current > 0 && !isPaused) {
-            const now = Date.now();
+            const now = LocationService.now();
             const elapsed = Math.floor((now - startTimeRef.current) / 1000) - Math.floor(pausedDurationRef.current / 1000);
             setDuration(elapsed);
         }
     };
 
+    const onTimerTick = () => {
+        updateDurationFromTime();
+        setCadence(MotionService.getCadence());
+        updateCoaching();
+    };
+
+    const setProgress = (distanceKm: number, kcal: number) => {
+        distanceRef.current = distanceKm;
+        caloriesRef.current = kcal;
+        setDistance(distanceKm);
+        setCalories(kcal);
+    };
+
+    /**
+     * Feed progress to the voice coach and interval engine. Runs on every timer tick and
+     * every accepted fix: timers stop while the phone is locked, fixes keep coming.
+     */
+    const updateCoaching = () => {
+        if (isPausedRef.current) return;
+        const durationSec = Math.floor((LocationService.now() - startTimeRef.current - pausedDurationRef.current) / 1000);
+        VoiceCoachService.update({ distanceKm: distanceRef.current, durationSec, calories: caloriesRef.current });
+        if (!IntervalService.isActive()) return;
+        const progress = { distanceKm: distanceRef.current, durationSec, motion: motionStateRef.current };
+        const completed = IntervalService.update(progress);
+        if (completed) WorkoutJournalService.recordInterval(completed);
+        setIntervalStatus(IntervalService.getStatus(progress));
+    };
+
+    /**
+     * Steps only count while the clock runs; on a treadmill they are the distance
+     */
+    const onStep = ({ steps: total, cadenceSpm }: StepUpdate) => {
+        const delta = total - stepTotalRef.current;
+        stepTotalRef.current = total;
+        if (isPausedRef.current) return;
+
+        stepsRef.current += delta;
+        setSteps(stepsRef.current);
+        setCadence(cadenceSpm);
+        if (stepsRef.current - journaledStepsRef.current >= STEP_JOURNAL_INTERVAL) {
+            journaledStepsRef.current = stepsRef.current;
+            WorkoutJournalService.recordSteps(stepsRef.current);
+        }
+        if (!isTreadmill) return;
+
+        const totalDist = TreadmillService.distanceKm(stepsRef.current, strideRef.current);
+        const elapsedSec = (LocationService.now() - startTimeRef.current - pausedDurationRef.current) / 1000;
+        setProgress(totalDist, CaloriesService.forDistance(totalDist, elapsedSec));
+    };
+
     const startWorkout = async () => {
-        const hasPermission = await LocationService.requestPermissions();
-        if (!hasPermission) {
-            Alert.alert('Permission Required', 'Location permission is needed to track your run.');
-            return;
+        if (!isTreadmill) {
+            const hasPermission = await LocationService.requestPermissions();
+            if (!hasPermission) {
+                Alert.alert('Permission Required', 'Location permission is needed to track your run.');
+                return;
+            }
         }
 
         setIsRunning(true);
         setIsPaused(false);
-        startTimeRef.current = Date.now();
-        pausedDurationRef.current = 0;
 
-        // Start timer
-        timerRef.current = setInterval(() => {
+        const settings = await SettingsService.getSettings();
+        settingsRef.current = settings;
+        autoPauseRef.current = { enabled: settings.autoPauseEnabled, delaySec: settings.autoPauseDelaySec };
+        setAutoPauseEnabled(settings.autoPauseEnabled);
+        strideRef.current = settings.treadmillStrideM;
+
+        // Pick up an interrupted session from the journal, or open a new one; whatever was
+        // being journaled before this screen is closed either way
+        await WorkoutJournalService.close();
+        const recovered = resume === '1' && user ? await WorkoutJournalService.resume(user.id) : null;
+        const steps: IntervalStep[] | null = recovered ? recovered.intervals : plan ? JSON.parse(plan) : null;
+        if (recovered) {
+            startTimeRef.current = recovered.startedAt;
+            pausedDurationRef.current = recovered.pausedDurationMs;
+            pausesRef.current = recovered.pauses;
+            restoreSteps(recovered.steps, recovered.strideM);
+            if (!isTreadmill) restoreRoute(recovered.points);
             updateDurationFromTime();
-        }, 1000);
+        } else {
+            startTimeRef.current = LocationService.now();
+            pausedDurationRef.current = 0;
+            // A replay isn't a run to recover
+            if (!isReplay && user) await WorkoutJournalService.start(
+                user.id,
+                startTimeRef.current,
+                isTreadmill ? 'treadmill' : 'gps',
+                isTreadmill ? strideRef.current : undefined,
+                steps ?? undefined
+            );
+        }
+
+        // Keyed by start time, so a resumed session keeps appending to the same recording
+        if (settings.diagnosticsEnabled) {
+            await DiagnosticsService.start(startTimeRef.current);
+        }
+
+        setVoiceEnabled(settings.voiceEnabled);
+        if (settings.voiceEnabled) startVoiceCoach();
+        if (steps) {
+            setIntervalSteps(steps);
+            IntervalService.start(steps, settings.voiceLanguage, settings.voiceEnabled, recovered?.intervalResults);
+        }
+
+        // Start timer
+        timerRef.current = setInterval(onTimerTick, 1000);
+        updateCoaching();
+
+        // Start motion detection and step counting
+        MotionService.startMonitoring((state) => {
+            motionStateRef.current = state;
+            setMotionState(state);
+            checkAutoPause();
+        });
+        unsubscribeStepsRef.current = MotionService.subscribeSteps(onStep);
+
+        // Indoors there is no usable GPS
+        if (isTreadmill) return;
 
         // Start location tracking
         await LocationService.startTracking((location) => {
+            WorkoutJournalService.recordPoint(location);
+            const latest = lastLocationRef.current;
+            if (latest && location.timestamp < latest.timestamp) {
+                insertLateFix(location);
+                return;
+            }
+
             // --- Speed: prefer GPS chip speed (Doppler), fallback to position diff ---
             let rawSpeedKmh = 0;
             const prev = lastLocationRef.current;
@@ -103,45 +263,196 @@ export default function WorkoutScreen() {
             // Store latest location for locate button
             lastLocationRef.current = location;
 
-            setRoutePoints(prev => {
-                const newPoints = [...prev, location];
-                const totalDist = LocationService.calculateTotalDistance(newPoints);
-                setDistance(totalDist);
-
-                // Update calories
-                const elapsed = (Date.now() - startTimeRef.current - pausedDurationRef.current) / 1000;
-                const elapsedMin = elapsed / 60;
-                setCalories(LocationService.estimateCalories(totalDist, elapsedMin));
-
-                // Set initial map center only once — camera stays put after user pans
-                setMapRegion((prev: any) => prev ?? {
-                    latitude: location.latitude,
-                    longitude: location.longitude,
-                    latitudeDelta: 0.005,
-                    longitudeDelta: 0.005,
-                });
-
-                return newPoints;
+            routeRef.current.push(location);
+
+            // Set initial map center only once — camera stays put after user pans
+            setMapRegion((prev: any) => prev ?? {
+                latitude: location.latitude,
+                longitude: location.longitude,
+                latitudeDelta: 0.005,
+                longitudeDelta: 0.005,
             });
+
+            // Only filtered points count towards distance
+            const smoothed = trackFilterRef.current.push(location);
+            if (!smoothed) return;
+
+            checkAutoPause();
+
+            const newPoints = [...trackRef.current, smoothed];
+            trackRef.current = newPoints;
+            setTrackPoints(newPoints);
+            setProgress(
+                LocationService.calculateMovingDistance(newPoints, pausesRef.current),
+                calorieCounterRef.current.push(smoothed, pausesRef.current)
+            );
+            updateCoaching();
+        }, startTimeRef.current);
+    };
+
+    /**
+     * Auto-pause once GPS speed and motion state both say stationary for the configured delay;
+     * auto-resume as soon as the accelerometer picks up movement again
+     */
+    const checkAutoPause = () => {
+        if (!autoPauseRef.current.enabled) return;
+
+        if (isPausedRef.current) {
+            if (autoPausedRef.current && motionStateRef.current !== 'stationary') resumeWorkout();
+            return;
+        }
+
+        const now = LocationService.now();
+        const last = lastLocationRef.current;
+        const gpsMoving = !!last
+            && now - last.timestamp < GPS_STALE_MS
+            && MotionService.isMoving(last.speed ?? emaSpeedRef.current / 3.6);
+
+        if (gpsMoving || motionStateRef.current !== 'stationary') {
+            stationarySinceRef.current = null;
+            return;
+        }
+        if (stationarySinceRef.current === null) {
+            stationarySinceRef.current = now;
+        } else if (now - stationarySinceRef.current >= autoPauseRef.current.delaySec * 1000) {
+            pauseWorkout(true);
+        }
+    };
+
+    const toggleAutoPause = () => {
+        const enabled = !autoPauseRef.current.enabled;
+        autoPauseRef.current = { ...autoPauseRef.current, enabled };
+        setAutoPauseEnabled(enabled);
+        stationarySinceRef.current = null;
+        SettingsService.updateSettings({ autoPauseEnabled: enabled });
+    };
+
+    /**
+     * Start spoken cues, then fill in today's target and penalty once they load
+     */
+    const startVoiceCoach = async () => {
+        const settings = settingsRef.current;
+        if (!settings) return;
+        VoiceCoachService.start({
+            language: settings.voiceLanguage,
+            distanceIntervalKm: settings.voiceDistanceKm,
+            timeIntervalMin: settings.voiceTimeMin,
+            stats: settings.voiceStats,
         });
+        if (!user) return;
+        try {
+            const [targetKm, streak] = await Promise.all([
+                TargetService.getTodayTarget(user.id),
+                StreakService.getStreak(user.id),
+            ]);
+            VoiceCoachService.setGoal({ targetKm, penaltyKm: streak.data?.penalty_km ?? 0 });
+        } catch (error) {
+            console.error('Error loading today\'s goal for voice cues:', error);
+        }
+    };
+
+    const toggleVoice = () => {
+        const enabled = !voiceEnabled;
+        setVoiceEnabled(enabled);
+        if (enabled) startVoiceCoach();
+        else VoiceCoachService.stop();
+        IntervalService.setVoiceEnabled(enabled);
+        SettingsService.updateSettings({ voiceEnabled: enabled });
+    };
+
+    const skipIntervalStep = () => {
+        const progress = { distanceKm: distance, durationSec: duration };
+        const skipped = IntervalService.skip(progress);
+        if (skipped) WorkoutJournalService.recordInterval(skipped);
+        setIntervalStatus(IntervalService.getStatus(progress));
+    };
+
+    const restoreSteps = (recoveredSteps: number, strideM: number | null) => {
+        if (strideM) strideRef.current = strideM;
+        stepsRef.current = recoveredSteps;
+        journaledStepsRef.current = recoveredSteps;
+        setSteps(recoveredSteps);
+        if (!isTreadmill) return;
+        const totalDist = TreadmillService.distanceKm(recoveredSteps, strideRef.current);
+        const elapsedSec = (LocationService.now() - startTimeRef.current - pausedDurationRef.current) / 1000;
+        setProgress(totalDist, CaloriesService.forDistance(totalDist, elapsedSec));
+    };
+
+    /**
+     * Filter the whole route again, for a route that didn't grow one fix at a time
+     */
+    const rebuildTrack = (route: LocationPoint[]) => {
+        const filter = LocationService.createTrackFilter();
+        const counter = CaloriesService.createCounter();
+        const track = route
+            .map(p => filter.push(p))
+            .filter((p): p is LocationPoint => p !== null);
+        trackFilterRef.current = filter;
+        calorieCounterRef.current = counter;
+        trackRef.current = track;
+        setTrackPoints(track);
+        const kcal = track.reduce((_, p) => counter.push(p, pausesRef.current), 0);
+        setProgress(LocationService.calculateMovingDistance(track, pausesRef.current), kcal);
+    };
+
+    /**
+     * Slot a fix from a late background batch into the route by its timestamp; the track is
+     * filtered again so distance covers the stretch it fills in
+     */
+    const insertLateFix = (location: LocationPoint) => {
+        const route = [...routeRef.current];
+        let i = route.length;
+        while (i > 0 && route[i - 1].timestamp > location.timestamp) i--;
+        route.splice(i, 0, location);
+        routeRef.current = route;
+        rebuildTrack(route);
+        updateCoaching();
+    };
 
-        // Start motion detection
-        MotionService.startMonitoring(setMotionState);
+    const restoreRoute = (points: LocationPoint[]) => {
+        if (points.length === 0) return;
+        const last = points[points.length - 1];
+        lastLocationRef.current = last;
+        routeRef.current = points;
+        rebuildTrack(points);
+        setMapRegion({
+            latitude: last.latitude,
+            longitude: last.longitude,
+            latitudeDelta: 0.005,
+            longitudeDelta: 0.005,
+        });
     };
 
-    const pauseWorkout = () => {
+    const pauseWorkout = (auto = false) => {
+        if (isPausedRef.current) return;
+        isPausedRef.current = true;
+        autoPausedRef.current = auto;
         setIsPaused(true);
-        pauseStartRef.current = Date.now();
+        setIsAutoPaused(auto);
+        pauseStartRef.current = LocationService.now();
+        if (isTreadmill && stepsRef.current !== journaledStepsRef.current) {
+            journaledStepsRef.current = stepsRef.current;
+            WorkoutJournalService.recordSteps(stepsRef.current, pauseStartRef.current);
+        }
+        setCadence(0);
+        pausesRef.current.push({ start: pauseStartRef.current, end: null });
+        WorkoutJournalService.recordPause(pauseStartRef.current);
         if (timerRef.current) clearInterval(timerRef.current);
     };
 
     const resumeWorkout = () => {
+        if (!isPausedRef.current) return;
+        isPausedRef.current = false;
+        autoPausedRef.current = false;
+        stationarySinceRef.current = null;
         setIsPaused(false);
-        pausedDurationRef.current += Date.now() - pauseStartRef.current;
+        setIsAutoPaused(false);
+        const now = LocationService.now();
+        pausedDurationRef.current += now - pauseStartRef.current;
+        pausesRef.current[pausesRef.current.length - 1].end = now;
+        WorkoutJournalService.recordResume(now);
 
-        timerRef.current = setInterval(() => {
-            updateDurationFromTime();
-        }, 1000);
+        timerRef.current = setInterval(onTimerTick, 1000);
     };
 
     const stopWorkout = () => {
@@ -152,18 +463,38 @@ export default function WorkoutScreen() {
                 style: 'destructive',
                 onPress: async () => {
                     if (timerRef.current) clearInterval(timerRef.current);
+                    // Read before tracking stops, while a replay's clock is still running
+                    const endedAt = LocationService.now();
+                    const intervalResults = IntervalService.isActive()
+                        ? IntervalService.finish({ distanceKm: distance, durationSec: duration })
+                        : null;
                     await LocationService.stopTracking();
                     MotionService.stopMonitoring();
-
-                    // Navigate to summary
+                    unsubscribeStepsRef.current?.();
+                    DiagnosticsService.stop();
+                    VoiceCoachService.stop();
+                    // The journal stays until the summary has saved the run; ending it on a
+                    // pause lets recovery finish the run at this moment if that never happens
+                    if (!isPausedRef.current) await WorkoutJournalService.recordPause(endedAt);
+                    await WorkoutJournalService.close();
+
+                    // Navigate to summary (treadmill runs are checked there before saving)
                     router.replace({
                         pathname: '/workout-summary',
                         params: {
                             distance: distance.toFixed(4),
                             duration: duration.toString(),
-                            calories: calories.toString(),
-                            routeGeoJSON: JSON.stringify(LocationService.toGeoJSON(routePoints)),
+                            elapsed: Math.floor((endedAt - startTimeRef.current) / 1000).toString(),
+                            // The live count is an approximation; the whole track gives the saved value
+                            calories: (isTreadmill ? calories : CaloriesService.forTrack(trackPoints, pausesRef.current)).toString(),
+                            routeGeoJSON: isTreadmill
+                                ? ''
+                                : JSON.stringify(LocationService.toGeoJSON(trackPoints, pausesRef.current)),
                             startedAt: new Date(startTimeRef.current).toISOString(),
+                            avgCadence: MotionService.averageCadence(stepsRef.current, duration).toString(),
+                            ...(isTreadmill && { source: 'treadmill', steps: stepsRef.current.toString() }),
+                            ...(isReplay && { replay: '1' }),
+                            ...(intervalResults && { intervals: JSON.stringify(intervalResults) }),
                         },
                     });
                 },
@@ -179,9 +510,15 @@ export default function WorkoutScreen() {
             if (timerRef.current) clearInterval(timerRef.current);
             LocationService.stopTracking();
             MotionService.stopMonitoring();
+            unsubscribeStepsRef.current?.();
+            DiagnosticsService.stop();
+            VoiceCoachService.stop();
+            IntervalService.stop();
+            WorkoutJournalService.close();
         };
     }, []);
 
+
     const formatTime = (s: number) => {
         const h = Math.floor(s / 3600);
         const m = Math.floor((s % 3600) / 60);
@@ -190,7 +527,12 @@ export default function WorkoutScreen() {
         return `${String(m).padStart(2, '0')}:${String(sec).padStart(2, '0')}`;
     };
 
-    const mapCoords = routePoints.map(p => ({ latitude: p.latitude, longitude: p.longitude }));
+    const isRepeat = (step: IntervalStep) => step.kind === 'work' || step.kind === 'run';
+    const repeatCount = intervalSteps?.filter(isRepeat).length ?? 0;
+
+    const mapCoords = trackPoints.map(p => ({ latitude: p.latitude, longitude: p.longitude }));
+    // On a treadmill, speed follows cadence × stride
+    const displaySpeed = isTreadmill ? (cadence * strideRef.current * 60) / 1000 : speed;
 
     const getMotionEmoji = () => {
         switch (motionState) {
@@ -202,9 +544,16 @@ export default function WorkoutScreen() {
 
     return (
         <SafeAreaView style={styles.container} edges={['top']}>
-            {/* Map */}
+            {/* Map (steps on a treadmill) */}
             <View style={styles.mapContainer}>
-                {mapRegion ? (
+                {isTreadmill ? (
+                    <View style={styles.treadmillPanel}>
+                        <Ionicons name="footsteps" size={48} color={Colors.primary} />
+                        <Text style={styles.treadmillSteps}>{steps}</Text>
+                        <Text style={styles.treadmillLabel}>bước</Text>
+                        <Text style={styles.treadmillHint}>Sải chân {strideRef.current.toFixed(2)} m</Text>
+                    </View>
+                ) : mapRegion ? (
                     <SafeMapView
                         ref={mapRef}
                         style={styles.map}
@@ -232,12 +581,37 @@ export default function WorkoutScreen() {
                     </View>
                 )}
 
+                {/* Auto-pause toggle */}
+                <TouchableOpacity
+                    style={[styles.autoPauseBadge, autoPauseEnabled && styles.autoPauseBadgeActive]}
+                    onPress={toggleAutoPause}
+                    activeOpacity={0.8}
+                >
+                    <Ionicons
+                        name="pause-circle-outline"
+                        size={16}
+                        color={autoPauseEnabled ? Colors.textOnPrimary : Colors.textSecondary}
+                    />
+                    <Text style={[styles.autoPauseText, autoPauseEnabled && styles.autoPauseTextActive]}>
+                        Tự dừng
+                    </Text>
+                </TouchableOpacity>
+
                 {/* Motion state badge */}
                 <View style={styles.motionBadge}>
                     <Text style={styles.motionEmoji}>{getMotionEmoji()}</Text>
                     <Text style={styles.motionText}>{motionState}</Text>
                 </View>
 
+                {/* Voice cues toggle */}
+                <TouchableOpacity style={styles.voiceButton} onPress={toggleVoice} activeOpacity={0.8}>
+                    <Ionicons
+                        name={voiceEnabled ? 'volume-high' : 'volume-mute'}
+                        size={22}
+                        color={voiceEnabled ? Colors.primary : Colors.textSecondary}
+                    />
+                </TouchableOpacity>
+
                 {/* Locate me button */}
                 {mapRegion && (
                     <TouchableOpacity
@@ -255,8 +629,64 @@ export default function WorkoutScreen() {
 
             {/* Stats */}
             <View style={styles.statsArea}>
+                {/* Current interval step */}
+                {intervalStatus && (
+                    <View style={styles.intervalCard}>
+                        {intervalStatus.step ? (
+                            <>
+                                <View style={styles.intervalHeader}>
+                                    <Text style={styles.intervalStep}>
+                                        {STEP_LABELS[intervalStatus.step.kind]}
+                                        {isRepeat(intervalStatus.step) ? ` ${intervalStatus.step.repeat}/${repeatCount}` : ''}
+                                    </Text>
+                                    <Text style={styles.intervalCount}>
+                                        Bước {intervalStatus.index + 1}/{intervalStatus.stepCount}
+                                    </Text>
+                                </View>
+                                <Text style={styles.intervalRemaining}>
+                                    {intervalStatus.step.length.type === 'distance'
+                                        ? `${Math.ceil(intervalStatus.remaining)} m`
+                                        : formatTime(Math.ceil(intervalStatus.remaining))}
+                                </Text>
+                                <View style={styles.intervalTrack}>
+                                    <View style={[styles.intervalFill, { width: `${intervalStatus.fraction * 100}%` }]} />
+                                </View>
+                                <View style={styles.intervalHeader}>
+                                    <Text style={styles.intervalHint}>
+                                        {intervalStatus.step.targetPaceSecPerKm
+                                            ? `Mục tiêu ${formatTime(intervalStatus.step.targetPaceSecPerKm)}/km · `
+                                            : ''}
+                                        Hiện tại {intervalStatus.stepPaceSecPerKm
+                                            ? `${formatTime(Math.round(intervalStatus.stepPaceSecPerKm))}/km`
+                                            : '--'}
+                                    </Text>
+                                    <TouchableOpacity onPress={skipIntervalStep} activeOpacity={0.8}>
+                                        <Text style={styles.intervalSkip}>Bỏ qua</Text>
+                                    </TouchableOpacity>
+                                </View>
+                                {intervalStatus.motionMismatch && (
+                                    <Text style={styles.intervalWarning}>
+                                        {intervalStatus.step.kind === 'run'
+                                            ? 'Có vẻ bạn chưa chạy — chạy nhẹ nhàng thôi'
+                                            : 'Có vẻ bạn vẫn đang chạy — hãy đi bộ để hồi sức'}
+                                    </Text>
+                                )}
+                                {intervalStatus.next && (
+                                    <Text style={styles.intervalHint}>
+                                        Tiếp theo: {STEP_LABELS[intervalStatus.next.kind]}
+                                    </Text>
+                                )}
+                            </>
+                        ) : (
+                            <Text style={styles.intervalStep}>Hoàn thành bài tập 🎉 — chạy tiếp hoặc kết thúc</Text>
+                        )}
+                    </View>
+                )}
+
                 <Text style={styles.distanceValue}>{distance.toFixed(2)}</Text>
-                <Text style={styles.distanceLabel}>kilometers</Text>
+                <Text style={styles.distanceLabel}>
+                    {isAutoPaused ? 'Tự động tạm dừng — tiếp tục khi bạn di chuyển' : 'kilometers'}
+                </Text>
 
                 <View style={styles.statsGrid}>
                     <View style={styles.statItem}>
@@ -266,9 +696,14 @@ export default function WorkoutScreen() {
                     </View>
                     <View style={styles.statItem}>
                         <Ionicons name="speedometer-outline" size={20} color={Colors.textSecondary} />
-                        <Text style={styles.statValue}>{speed.toFixed(1)}</Text>
+                        <Text style={styles.statValue}>{displaySpeed.toFixed(1)}</Text>
                         <Text style={styles.statLabel}>Speed km/h</Text>
                     </View>
+                    <View style={styles.statItem}>
+                        <Ionicons name="footsteps-outline" size={20} color={Colors.textSecondary} />
+                        <Text style={styles.statValue}>{cadence}</Text>
+                        <Text style={styles.statLabel}>Cadence spm</Text>
+                    </View>
                     <View style={styles.statItem}>
                         <Ionicons name="flame-outline" size={20} color={Colors.textSecondary} />
                         <Text style={styles.statValue}>{calories}</Text>
@@ -283,7 +718,7 @@ export default function WorkoutScreen() {
                             <Ionicons name="play" size={32} color="#fff" />
                         </TouchableOpacity>
                     ) : (
-                        <TouchableOpacity style={styles.pauseButton} onPress={pauseWorkout}>
+                        <TouchableOpacity style={styles.pauseButton} onPress={() => pauseWorkout()}>
                             <Ionicons name="pause" size={32} color="#fff" />
                         </TouchableOpacity>
                     )}
@@ -310,6 +745,27 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         backgroundColor: Colors.backgroundSecondary,
     },
+    treadmillPanel: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        backgroundColor: Colors.backgroundSecondary,
+    },
+    treadmillSteps: {
+        fontSize: 40,
+        fontWeight: '800',
+        color: Colors.text,
+        marginTop: Spacing.sm,
+    },
+    treadmillLabel: {
+        fontSize: FontSize.md,
+        color: Colors.textSecondary,
+    },
+    treadmillHint: {
+        fontSize: FontSize.xs,
+        color: Colors.textLight,
+        marginTop: Spacing.xs,
+    },
     mapPlaceholderText: {
         fontSize: FontSize.md,
         color: Colors.textLight,
@@ -327,6 +783,30 @@ const styles = StyleSheet.create({
         borderRadius: BorderRadius.full,
         ...Shadow.sm,
     },
+    autoPauseBadge: {
+        position: 'absolute',
+        top: Spacing.md,
+        left: Spacing.md,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        backgroundColor: 'rgba(255,255,255,0.95)',
+        paddingHorizontal: Spacing.md,
+        paddingVertical: Spacing.sm,
+        borderRadius: BorderRadius.full,
+        ...Shadow.sm,
+    },
+    autoPauseBadgeActive: {
+        backgroundColor: Colors.primary,
+    },
+    autoPauseText: {
+        fontSize: FontSize.sm,
+        fontWeight: '600',
+        color: Colors.textSecondary,
+    },
+    autoPauseTextActive: {
+        color: Colors.textOnPrimary,
+    },
     locateButton: {
         position: 'absolute',
         bottom: Spacing.md,
@@ -339,6 +819,18 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         ...Shadow.md,
     },
+    voiceButton: {
+        position: 'absolute',
+        bottom: Spacing.md,
+        left: Spacing.md,
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+        backgroundColor: '#fff',
+        justifyContent: 'center',
+        alignItems: 'center',
+        ...Shadow.md,
+    },
     motionEmoji: { fontSize: 18, marginRight: 4 },
     motionText: {
         fontSize: FontSize.sm,
@@ -346,6 +838,59 @@ const styles = StyleSheet.create({
         color: Colors.text,
         textTransform: 'capitalize',
     },
+    intervalCard: {
+        width: '100%',
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.md,
+        marginBottom: Spacing.md,
+    },
+    intervalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    intervalStep: {
+        fontSize: FontSize.md,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    intervalCount: {
+        fontSize: FontSize.xs,
+        color: Colors.textSecondary,
+    },
+    intervalRemaining: {
+        fontSize: 32,
+        fontWeight: '800',
+        color: Colors.primary,
+        marginVertical: Spacing.xs,
+    },
+    intervalTrack: {
+        height: 8,
+        borderRadius: 4,
+        backgroundColor: Colors.surface,
+        overflow: 'hidden',
+        marginBottom: Spacing.sm,
+    },
+    intervalFill: {
+        height: '100%',
+        backgroundColor: Colors.primary,
+    },
+    intervalHint: {
+        fontSize: FontSize.sm,
+        color: Colors.textSecondary,
+    },
+    intervalWarning: {
+        fontSize: FontSize.sm,
+        fontWeight: '600',
+        color: Colors.accent,
+        marginBottom: 2,
+    },
+    intervalSkip: {
+        fontSize: FontSize.sm,
+        fontWeight: '700',
+        color: Colors.primary,
+    },
     statsArea: {
         paddingHorizontal: Spacing.lg,
         paddingVertical: Spacing.lg,
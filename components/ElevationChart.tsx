@@ -0,0 +1,131 @@
+import { BorderRadius, Colors, FontSize, Spacing } from '@/constants/theme';
+import { ElevationSample } from '@/services/LocationService';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+
+interface ElevationChartProps {
+    profile: ElevationSample[];
+    gainM: number;
+    lossM: number;
+    height?: number;
+}
+
+// More points than this are averaged into buckets — the chart is only a few hundred px wide
+const MAX_CHART_POINTS = 200;
+
+function downsample(profile: ElevationSample[]): ElevationSample[] {
+    if (profile.length <= MAX_CHART_POINTS) return profile;
+    const bucket = profile.length / MAX_CHART_POINTS;
+    const out: ElevationSample[] = [];
+    for (let i = 0; i < MAX_CHART_POINTS; i++) {
+        const slice = profile.slice(Math.floor(i * bucket), Math.floor((i + 1) * bucket));
+        out.push({
+            distanceM: slice[slice.length - 1].distanceM,
+            altitude: slice.reduce((sum, s) => sum + s.altitude, 0) / slice.length,
+        });
+    }
+    out[0] = profile[0];
+    return out;
+}
+
+export function ElevationChart({ profile, gainM, lossM, height = 140 }: ElevationChartProps) {
+    const [width, setWidth] = useState(0);
+    if (profile.length < 2) return null;
+
+    const samples = downsample(profile);
+    const totalM = samples[samples.length - 1].distanceM || 1;
+    const altitudes = samples.map(s => s.altitude);
+    const minAlt = Math.min(...altitudes);
+    const maxAlt = Math.max(...altitudes);
+    // Keep at least 10 m of vertical range so flat runs don't look mountainous
+    const range = Math.max(maxAlt - minAlt, 10);
+    const baseAlt = minAlt - (range - (maxAlt - minAlt)) / 2;
+
+    const x = (d: number) => (d / totalM) * width;
+    const y = (alt: number) => height - ((alt - baseAlt) / range) * (height - 8) - 4;
+    const line = samples
+        .map((s, i) => `${i === 0 ? 'M' : 'L'}${x(s.distanceM).toFixed(1)},${y(s.altitude).toFixed(1)}`)
+        .join(' ');
+    const area = `${line} L${width},${height} L0,${height} Z`;
+
+    return (
+        <View style={styles.card}>
+            <View style={styles.titleRow}>
+                <Text style={styles.title}>Độ cao</Text>
+                <View style={styles.totals}>
+                    <Ionicons name="trending-up" size={16} color={Colors.primary} />
+                    <Text style={styles.totalText}>{gainM} m</Text>
+                    <Ionicons name="trending-down" size={16} color={Colors.textSecondary} style={{ marginLeft: Spacing.sm }} />
+                    <Text style={styles.totalText}>{lossM} m</Text>
+                </View>
+            </View>
+
+            <View style={styles.chartRow}>
+                <View style={[styles.axisY, { height }]}>
+                    <Text style={styles.axisText}>{Math.round(maxAlt)} m</Text>
+                    <Text style={styles.axisText}>{Math.round(minAlt)} m</Text>
+                </View>
+                <View style={{ flex: 1, height }} onLayout={e => setWidth(e.nativeEvent.layout.width)}>
+                    {width > 0 && (
+                        <Svg width={width} height={height}>
+                            <Path d={area} fill={Colors.primaryLight} fillOpacity={0.35} />
+                            <Path d={line} stroke={Colors.primary} strokeWidth={2} fill="none" />
+                        </Svg>
+                    )}
+                </View>
+            </View>
+            <View style={styles.axisX}>
+                <Text style={styles.axisText}>0 km</Text>
+                <Text style={styles.axisText}>{(totalM / 1000).toFixed(2)} km</Text>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.lg,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.lg,
+    },
+    titleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: Spacing.md,
+    },
+    title: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    totals: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    },
+    totalText: {
+        fontSize: FontSize.sm,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    chartRow: { flexDirection: 'row' },
+    axisY: {
+        width: 40,
+        justifyContent: 'space-between',
+    },
+    axisX: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: Spacing.xs,
+        marginLeft: 40,
+    },
+    axisText: {
+        fontSize: 10,
+        color: Colors.textSecondary,
+    },
+});
@@ -0,0 +1,189 @@
+import { BorderRadius, Colors, FontSize, Spacing } from '@/constants/theme';
+import { EXPECTED_MOTION, STEP_LABELS, StepKind, StepLength, StepResult } from '@/services/IntervalService';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface IntervalsTableProps {
+    results: StepResult[];
+}
+
+function formatDuration(sec: number): string {
+    const m = Math.floor(sec / 60);
+    const s = Math.round(sec % 60);
+    return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+export function formatStepLength(length: StepLength): string {
+    return length.type === 'distance'
+        ? (length.meters >= 1000 ? `${(length.meters / 1000).toFixed(1)} km` : `${length.meters} m`)
+        : formatDuration(length.seconds);
+}
+
+function isRepeated(kind: StepKind): boolean {
+    return kind === 'work' || kind === 'run';
+}
+
+/**
+ * Time and distance spent on one side of a run/walk workout, and how much of that time
+ * the accelerometer agreed with the step (null when the phone recorded no motion)
+ */
+function summarize(results: StepResult[], kind: 'run' | 'walk') {
+    const steps = results.filter(r => r.kind === kind);
+    const expected = EXPECTED_MOTION[kind]!;
+    let sensedSec = 0;
+    let matchingSec = 0;
+    for (const step of steps) {
+        if (!step.motion) continue;
+        sensedSec += step.motion.stationary + step.motion.walking + step.motion.running;
+        matchingSec += step.motion[expected];
+    }
+    return {
+        durationSec: steps.reduce((sum, r) => sum + r.durationSec, 0),
+        distanceM: steps.reduce((sum, r) => sum + r.distanceM, 0),
+        matchingPct: sensedSec > 0 ? Math.round((matchingSec / sensedSec) * 100) : null,
+    };
+}
+
+/**
+ * Run/walk workouts: total run and walk time, and a bar of the steps in order
+ */
+export function RunWalkBreakdown({ results }: IntervalsTableProps) {
+    if (!results.some(r => r.kind === 'run')) return null;
+    const rows = [
+        { kind: 'run' as const, label: 'Chạy', color: Colors.primary, ...summarize(results, 'run') },
+        { kind: 'walk' as const, label: 'Đi bộ', color: Colors.secondary, ...summarize(results, 'walk') },
+    ];
+
+    return (
+        <View style={styles.card}>
+            <Text style={styles.title}>Chạy / đi bộ</Text>
+            <View style={styles.sequenceBar}>
+                {results.filter(r => r.durationSec > 0).map((result, i) => (
+                    <View
+                        key={i}
+                        style={{
+                            flex: result.durationSec,
+                            backgroundColor: result.kind === 'run' ? Colors.primary : Colors.secondary,
+                        }}
+                    />
+                ))}
+            </View>
+            {rows.map(row => (
+                <View key={row.kind} style={styles.row}>
+                    <View style={[styles.legendDot, { backgroundColor: row.color }]} />
+                    <View style={styles.colStep}>
+                        <Text style={[styles.cellText, styles.workText]}>{row.label}</Text>
+                        {row.matchingPct !== null && (
+                            <Text style={styles.planText}>
+                                {row.matchingPct}% thời gian {row.kind === 'run' ? 'thực sự chạy' : 'thực sự đi bộ'}
+                            </Text>
+                        )}
+                    </View>
+                    <Text style={[styles.cellText, styles.colValue]}>{(row.distanceM / 1000).toFixed(2)} km</Text>
+                    <Text style={[styles.cellText, styles.colValue]}>{formatDuration(row.durationSec)}</Text>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+export function IntervalsTable({ results }: IntervalsTableProps) {
+    if (results.length === 0) return null;
+
+    return (
+        <View style={styles.card}>
+            <Text style={styles.title}>Các bước</Text>
+            <View style={styles.headerRow}>
+                <Text style={[styles.headerText, styles.colStep]}>Bước</Text>
+                <Text style={[styles.headerText, styles.colValue]}>Quãng</Text>
+                <Text style={[styles.headerText, styles.colValue]}>Thời gian</Text>
+                <Text style={[styles.headerText, styles.colValue]}>Tốc độ</Text>
+            </View>
+            {results.map((result, i) => {
+                const pace = result.distanceM >= 50 ? result.durationSec / (result.distanceM / 1000) : null;
+                const target = result.targetPaceSecPerKm;
+                // Within 5 s/km of the target counts as on pace
+                const paceStyle = pace === null || target === null
+                    ? null
+                    : pace <= target + 5 ? styles.onPace : styles.offPace;
+                return (
+                    <View key={i} style={styles.row}>
+                        <View style={styles.colStep}>
+                            <Text style={[styles.cellText, isRepeated(result.kind) && styles.workText]}>
+                                {STEP_LABELS[result.kind]}{isRepeated(result.kind) && result.repeat ? ` ${result.repeat}` : ''}
+                            </Text>
+                            <Text style={styles.planText}>
+                                {formatStepLength(result.length)}
+                                {target ? ` @ ${formatDuration(target)}/km` : ''}
+                                {!result.completed ? ' · chưa xong' : ''}
+                            </Text>
+                        </View>
+                        <Text style={[styles.cellText, styles.colValue]}>{result.distanceM} m</Text>
+                        <Text style={[styles.cellText, styles.colValue]}>{formatDuration(result.durationSec)}</Text>
+                        <Text style={[styles.cellText, styles.colValue, styles.paceText, paceStyle]}>
+                            {pace === null ? '--' : formatDuration(pace)}
+                        </Text>
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.lg,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.lg,
+    },
+    title: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+        marginBottom: Spacing.md,
+    },
+    headerRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingBottom: Spacing.xs,
+        borderBottomWidth: 1,
+        borderBottomColor: Colors.borderLight,
+    },
+    headerText: {
+        fontSize: FontSize.xs,
+        fontWeight: '700',
+        color: Colors.textSecondary,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 6,
+    },
+    cellText: {
+        fontSize: FontSize.sm,
+        color: Colors.text,
+    },
+    workText: { fontWeight: '700' },
+    planText: { fontSize: FontSize.xs, color: Colors.textSecondary },
+    paceText: { fontWeight: '700' },
+    onPace: { color: Colors.primary },
+    offPace: { color: Colors.danger },
+    colStep: { flex: 1 },
+    sequenceBar: {
+        flexDirection: 'row',
+        height: 12,
+        borderRadius: BorderRadius.sm,
+        overflow: 'hidden',
+        backgroundColor: Colors.surface,
+        marginBottom: Spacing.sm,
+    },
+    legendDot: {
+        width: 10,
+        height: 10,
+        borderRadius: 5,
+        marginRight: Spacing.sm,
+    },
+    colValue: { width: 64, textAlign: 'right' },
+});
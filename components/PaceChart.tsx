@@ -0,0 +1,235 @@
+import { BorderRadius, Colors, FontSize, Spacing } from '@/constants/theme';
+import { PaceSample } from '@/services/LocationService';
+import React, { useMemo, useRef, useState } from 'react';
+import { PanResponder, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Svg, { Circle, Line, Path } from 'react-native-svg';
+
+interface PaceChartProps {
+    samples: PaceSample[];
+    /** Called with the route point index under the scrubber, or null when released */
+    onScrub?: (index: number | null) => void;
+    height?: number;
+}
+
+type ChartMode = 'pace' | 'speed';
+
+// Slower than this (e.g. walking through a crossing) is clamped so it doesn't flatten the chart
+const SLOWEST_PACE_SEC = 15 * 60;
+const MAX_CHART_POINTS = 200;
+
+function formatPace(sec: number): string {
+    const m = Math.floor(sec / 60);
+    const s = Math.round(sec % 60);
+    return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+function toPace(speedMs: number): number {
+    return speedMs > 0 ? Math.min(1000 / speedMs, SLOWEST_PACE_SEC) : SLOWEST_PACE_SEC;
+}
+
+function nearestSample(samples: PaceSample[], distanceM: number): PaceSample {
+    let lo = 0;
+    let hi = samples.length - 1;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (samples[mid].distanceM < distanceM) lo = mid + 1;
+        else hi = mid;
+    }
+    if (lo > 0 && distanceM - samples[lo - 1].distanceM < samples[lo].distanceM - distanceM) lo--;
+    return samples[lo];
+}
+
+export function PaceChart({ samples, onScrub, height = 140 }: PaceChartProps) {
+    const [width, setWidth] = useState(0);
+    const [mode, setMode] = useState<ChartMode>('pace');
+    const [scrubbed, setScrubbed] = useState<PaceSample | null>(null);
+
+    const totalM = samples.length > 0 ? samples[samples.length - 1].distanceM || 1 : 1;
+    const values = useMemo(
+        () => samples.map(s => (mode === 'pace' ? toPace(s.speedMs) : s.speedMs * 3.6)),
+        [samples, mode]
+    );
+    const minValue = values.length > 0 ? Math.min(...values) : 0;
+    const maxValue = values.length > 0 ? Math.max(...values) : 1;
+    const range = Math.max(maxValue - minValue, mode === 'pace' ? 30 : 1);
+
+    // Faster is always drawn higher: pace axis is inverted, speed axis is not
+    const x = (d: number) => (d / totalM) * width;
+    const y = (v: number) => {
+        const ratio = mode === 'pace' ? (v - minValue) / range : (maxValue - v) / range;
+        return 4 + ratio * (height - 8);
+    };
+
+    const step = Math.max(1, Math.floor(samples.length / MAX_CHART_POINTS));
+    const lineParts: string[] = [];
+    for (let i = 0; i < samples.length; i += step) {
+        lineParts.push(`${lineParts.length === 0 ? 'M' : 'L'}${x(samples[i].distanceM).toFixed(1)},${y(values[i]).toFixed(1)}`);
+    }
+    const line = lineParts.join(' ');
+
+    // PanResponder is created once, so it reads the latest layout through a ref
+    const latest = useRef({ samples, width, totalM, onScrub });
+    latest.current = { samples, width, totalM, onScrub };
+
+    const scrubAt = (locationX: number) => {
+        const { samples: s, width: w, totalM: t, onScrub: cb } = latest.current;
+        if (s.length === 0 || w === 0) return;
+        const sample = nearestSample(s, Math.min(Math.max(locationX / w, 0), 1) * t);
+        setScrubbed(sample);
+        cb?.(sample.index);
+    };
+
+    const panResponder = useRef(
+        PanResponder.create({
+            onStartShouldSetPanResponder: () => true,
+            onMoveShouldSetPanResponder: () => true,
+            // Keep the gesture while dragging inside a ScrollView
+            onPanResponderTerminationRequest: () => false,
+            onPanResponderGrant: e => scrubAt(e.nativeEvent.locationX),
+            onPanResponderMove: e => scrubAt(e.nativeEvent.locationX),
+            onPanResponderRelease: () => {
+                setScrubbed(null);
+                latest.current.onScrub?.(null);
+            },
+            onPanResponderTerminate: () => {
+                setScrubbed(null);
+                latest.current.onScrub?.(null);
+            },
+        })
+    ).current;
+
+    if (samples.length < 2) return null;
+
+    const formatValue = (v: number) => (mode === 'pace' ? formatPace(v) : v.toFixed(1));
+    const unit = mode === 'pace' ? '/km' : 'km/h';
+    const scrubValue = scrubbed ? (mode === 'pace' ? toPace(scrubbed.speedMs) : scrubbed.speedMs * 3.6) : null;
+
+    return (
+        <View style={styles.card}>
+            <View style={styles.titleRow}>
+                <Text style={styles.title}>{mode === 'pace' ? 'Tốc độ /km' : 'Tốc độ km/h'}</Text>
+                <View style={styles.toggle}>
+                    {(['pace', 'speed'] as ChartMode[]).map(m => (
+                        <TouchableOpacity
+                            key={m}
+                            style={[styles.toggleItem, mode === m && styles.toggleItemActive]}
+                            onPress={() => setMode(m)}
+                        >
+                            <Text style={[styles.toggleText, mode === m && styles.toggleTextActive]}>
+                                {m === 'pace' ? '/km' : 'km/h'}
+                            </Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            </View>
+
+            <Text style={styles.readout}>
+                {scrubbed && scrubValue !== null
+                    ? `${(scrubbed.distanceM / 1000).toFixed(2)} km · ${formatValue(scrubValue)} ${unit}`
+                    : 'Kéo trên biểu đồ để xem vị trí trên bản đồ'}
+            </Text>
+
+            <View style={styles.chartRow}>
+                <View style={[styles.axisY, { height }]}>
+                    <Text style={styles.axisText}>{formatValue(mode === 'pace' ? minValue : maxValue)}</Text>
+                    <Text style={styles.axisText}>{formatValue(mode === 'pace' ? maxValue : minValue)}</Text>
+                </View>
+                <View
+                    style={{ flex: 1, height }}
+                    onLayout={e => setWidth(e.nativeEvent.layout.width)}
+                    {...panResponder.panHandlers}
+                >
+                    {width > 0 && (
+                        <Svg width={width} height={height} pointerEvents="none">
+                            <Path d={line} stroke={Colors.primary} strokeWidth={2} fill="none" />
+                            {scrubbed && scrubValue !== null && (
+                                <>
+                                    <Line
+                                        x1={x(scrubbed.distanceM)}
+                                        y1={0}
+                                        x2={x(scrubbed.distanceM)}
+                                        y2={height}
+                                        stroke={Colors.text}
+                                        strokeWidth={1}
+                                        strokeDasharray="4 3"
+                                    />
+                                    <Circle
+                                        cx={x(scrubbed.distanceM)}
+                                        cy={y(scrubValue)}
+                                        r={5}
+                                        fill={Colors.primary}
+                                        stroke="#fff"
+                                        strokeWidth={2}
+                                    />
+                                </>
+                            )}
+                        </Svg>
+                    )}
+                </View>
+            </View>
+            <View style={styles.axisX}>
+                <Text style={styles.axisText}>0 km</Text>
+                <Text style={styles.axisText}>{(totalM / 1000).toFixed(2)} km</Text>
+            </View>
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.lg,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.lg,
+    },
+    titleRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        marginBottom: Spacing.xs,
+    },
+    title: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+    },
+    toggle: {
+        flexDirection: 'row',
+        backgroundColor: Colors.background,
+        borderRadius: BorderRadius.full,
+        padding: 2,
+    },
+    toggleItem: {
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: 4,
+        borderRadius: BorderRadius.full,
+    },
+    toggleItemActive: { backgroundColor: Colors.primary },
+    toggleText: {
+        fontSize: FontSize.xs,
+        fontWeight: '700',
+        color: Colors.textSecondary,
+    },
+    toggleTextActive: { color: Colors.textOnPrimary },
+    readout: {
+        fontSize: FontSize.sm,
+        color: Colors.textSecondary,
+        marginBottom: Spacing.sm,
+    },
+    chartRow: { flexDirection: 'row' },
+    axisY: {
+        width: 40,
+        justifyContent: 'space-between',
+    },
+    axisX: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: Spacing.xs,
+        marginLeft: 40,
+    },
+    axisText: {
+        fontSize: 10,
+        color: Colors.textSecondary,
+    },
+});
@@ -0,0 +1,99 @@
+import { BorderRadius, Colors } from '@/constants/theme';
+import { LocationService } from '@/services/LocationService';
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import Svg, { Circle, Path } from 'react-native-svg';
+
+interface RouteThumbnailProps {
+    workoutId: string;
+    /** Encoded route preview (see LocationService.toRoutePreview) */
+    route: string | null;
+    size?: number;
+}
+
+type Thumbnail = { path: string; start: [number, number]; end: [number, number] };
+
+// Projected paths per workout id, in unit coordinates (0..1) so any size can reuse them
+const thumbnailCache = new Map<string, Thumbnail>();
+
+const PADDING = 0.12;
+
+/** Whether a workout's thumbnail is already cached, so its route needn't be fetched again */
+export function hasRouteThumbnail(workoutId: string): boolean {
+    return thumbnailCache.has(workoutId);
+}
+
+/**
+ * Project a route into a unit square: equirectangular with the latitude scale at the
+ * route's centre, aspect ratio kept and the shorter side centred
+ */
+function buildThumbnail(route: string): Thumbnail | null {
+    const coords = LocationService.fromGeoJSON(route);
+    if (coords.length < 2) return null;
+
+    const lats = coords.map(c => c.latitude);
+    const lngs = coords.map(c => c.longitude);
+    const minLat = Math.min(...lats);
+    const maxLat = Math.max(...lats);
+    const minLng = Math.min(...lngs);
+    const maxLng = Math.max(...lngs);
+    const lngScale = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+    const width = (maxLng - minLng) * lngScale;
+    const height = maxLat - minLat;
+    const span = Math.max(width, height) || 1;
+    const scale = (1 - 2 * PADDING) / span;
+    const offsetX = PADDING + ((span - width) * scale) / 2;
+    const offsetY = PADDING + ((span - height) * scale) / 2;
+
+    const points = coords.map(c => [
+        offsetX + (c.longitude - minLng) * lngScale * scale,
+        offsetY + (maxLat - c.latitude) * scale,
+    ] as [number, number]);
+
+    return {
+        path: points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(4)},${y.toFixed(4)}`).join(' '),
+        start: points[0],
+        end: points[points.length - 1],
+    };
+}
+
+export function RouteThumbnail({ workoutId, route, size = 48 }: RouteThumbnailProps) {
+    let thumbnail = thumbnailCache.get(workoutId) ?? null;
+    if (!thumbnail && route) {
+        thumbnail = buildThumbnail(route);
+        if (thumbnail) thumbnailCache.set(workoutId, thumbnail);
+    }
+
+    return (
+        <View style={[styles.container, { width: size, height: size }]}>
+            {thumbnail ? (
+                <Svg width={size} height={size} viewBox="0 0 1 1">
+                    <Path
+                        d={thumbnail.path}
+                        stroke={Colors.primary}
+                        strokeWidth={0.06}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        fill="none"
+                    />
+                    <Circle cx={thumbnail.start[0]} cy={thumbnail.start[1]} r={0.05} fill={Colors.primaryDark} />
+                    <Circle cx={thumbnail.end[0]} cy={thumbnail.end[1]} r={0.05} fill={Colors.danger} />
+                </Svg>
+            ) : (
+                <Ionicons name="walk-outline" size={size * 0.45} color={Colors.textLight} />
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        borderRadius: BorderRadius.md,
+        backgroundColor: Colors.backgroundSecondary,
+        justifyContent: 'center',
+        alignItems: 'center',
+        overflow: 'hidden',
+    },
+});
@@ -1,7 +1,7 @@
 import { Colors, FontSize, Spacing } from '@/constants/theme';
 import MapLibreGL from '@maplibre/maplibre-react-native';
-import React, { useImperativeHandle, useRef } from 'react';
-import { StyleSheet, View } from 'react-native';
+import React, { useImperativeHandle, useMemo, useRef } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
 
 // OpenFreeMap - completely free vector tile map, no API key required
 const MAP_STYLE_URL = 'https://tiles.openfreemap.org/styles/liberty';
@@ -9,6 +9,19 @@ const MAP_STYLE_URL = 'https://tiles.openfreemap.org/styles/liberty';
 // Initialize MapLibre with no access token
 MapLibreGL.setAccessToken(null);
 
+const FIT_PADDING = { paddingTop: 40, paddingBottom: 40, paddingLeft: 40, paddingRight: 40 };
+
+/** North-east / south-west corners of a set of coordinates, or null if there are fewer than two */
+function routeBounds(coordinates?: { latitude: number; longitude: number }[]) {
+    if (!coordinates || coordinates.length < 2) return null;
+    const lats = coordinates.map(c => c.latitude);
+    const lngs = coordinates.map(c => c.longitude);
+    return {
+        ne: [Math.max(...lngs), Math.max(...lats)],
+        sw: [Math.min(...lngs), Math.min(...lats)],
+    };
+}
+
 export interface SafeMapViewRef {
     /** Fly camera to the given GPS coordinate */
     centerOnUser(longitude: number, latitude: number): void;
@@ -28,6 +41,8 @@ interface SafeMapViewProps {
         latitudeDelta?: number;
         longitudeDelta?: number;
     };
+    /** Fit the initial camera to these coordinates (e.g. a saved route) instead of a region */
+    fitCoordinates?: { latitude: number; longitude: number }[];
     showsUserLocation?: boolean;
     scrollEnabled?: boolean;
     zoomEnabled?: boolean;
@@ -38,10 +53,12 @@ export const SafeMapView = React.forwardRef<SafeMapViewRef, SafeMapViewProps>(fu
     style,
     region,
     initialRegion,
+    fitCoordinates,
     children,
 }: SafeMapViewProps, ref) {
     const cameraRef = useRef<any>(null);
     const activeRegion = region || initialRegion;
+    const bounds = useMemo(() => routeBounds(fitCoordinates), [fitCoordinates]);
 
     // Expose centerOnUser method to parent — uses flyTo with real GPS coordinate
     useImperativeHandle(ref, () => ({
@@ -61,12 +78,14 @@ export const SafeMapView = React.forwardRef<SafeMapViewRef, SafeMapViewProps>(fu
         >
             <MapLibreGL.Camera
                 ref={cameraRef}
-                defaultSettings={{
-                    centerCoordinate: activeRegion
-                        ? [activeRegion.longitude, activeRegion.latitude]
-                        : [106.6297, 10.8231],
-                    zoomLevel: 15,
-                }}
+                defaultSettings={bounds
+                    ? { bounds: { ...bounds, ...FIT_PADDING } }
+                    : {
+                        centerCoordinate: activeRegion
+                            ? [activeRegion.longitude, activeRegion.latitude]
+                            : [106.6297, 10.8231],
+                        zoomLevel: 15,
+                    }}
             />
             {children}
         </MapLibreGL.MapView>
@@ -74,34 +93,89 @@ export const SafeMapView = React.forwardRef<SafeMapViewRef, SafeMapViewProps>(fu
 });
 
 interface PolylineProps {
+    /** Unique per map — used for the ShapeSource/LineLayer ids */
+    id?: string;
     coordinates: { latitude: number; longitude: number }[];
     strokeColor?: string;
     strokeWidth?: number;
+    /**
+     * Speed (m/s) at each coordinate. When given, every segment is coloured by pace
+     * relative to the run's average instead of strokeColor; null speeds draw grey.
+     */
+    speeds?: (number | null)[];
 }
 
-export function SafePolyline({ coordinates, strokeColor, strokeWidth }: PolylineProps) {
-    if (!coordinates || coordinates.length < 2) return null;
+// Slowest to fastest, relative to the average speed — see paceColor
+const PACE_COLORS = [Colors.danger, Colors.accent, Colors.warning, Colors.primaryLight, Colors.primaryDark];
+const PACE_RATIO_STEPS = [0.85, 0.95, 1.05, 1.15];
 
-    const geoJSON: GeoJSON.FeatureCollection = {
-        type: 'FeatureCollection',
-        features: [
-            {
-                type: 'Feature',
-                properties: {},
-                geometry: {
-                    type: 'LineString',
-                    coordinates: coordinates.map(c => [c.longitude, c.latitude]),
-                },
-            },
-        ],
+function paceColor(speed: number | null, avgSpeed: number): string {
+    if (speed === null || avgSpeed <= 0) return Colors.textLight;
+    const ratio = speed / avgSpeed;
+    const bucket = PACE_RATIO_STEPS.findIndex(step => ratio < step);
+    return PACE_COLORS[bucket === -1 ? PACE_COLORS.length - 1 : bucket];
+}
+
+/** Mean of the known, non-zero speeds */
+export function averageSpeed(speeds: (number | null)[]): number {
+    const known = speeds.filter((s): s is number => s !== null && s > 0);
+    return known.length > 0 ? known.reduce((sum, s) => sum + s, 0) / known.length : 0;
+}
+
+/**
+ * Split a route into runs of consecutive segments that share a pace colour,
+ * so a long route becomes a handful of features rather than one per segment
+ */
+function paceSegments(
+    coordinates: { latitude: number; longitude: number }[],
+    speeds: (number | null)[]
+): GeoJSON.FeatureCollection {
+    const avg = averageSpeed(speeds);
+    const features: GeoJSON.Feature[] = [];
+    let current: { color: string; coords: number[][] } | null = null;
+
+    for (let i = 1; i < coordinates.length; i++) {
+        const color = paceColor(speeds[i] ?? null, avg);
+        const from = [coordinates[i - 1].longitude, coordinates[i - 1].latitude];
+        const to = [coordinates[i].longitude, coordinates[i].latitude];
+        if (current && current.color === color) {
+            current.coords.push(to);
+        } else {
+            if (current) features.push(lineFeature(current.coords, current.color));
+            current = { color, coords: [from, to] };
+        }
+    }
+    if (current) features.push(lineFeature(current.coords, current.color));
+    return { type: 'FeatureCollection', features };
+}
+
+function lineFeature(coords: number[][], color: string): GeoJSON.Feature {
+    return {
+        type: 'Feature',
+        properties: { color },
+        geometry: { type: 'LineString', coordinates: coords },
     };
+}
+
+export function SafePolyline({ id = 'route', coordinates, strokeColor, strokeWidth, speeds }: PolylineProps) {
+    // Rebuilt only when the route changes, not on every parent render (e.g. while scrubbing)
+    const geoJSON = useMemo<GeoJSON.FeatureCollection | null>(() => {
+        if (!coordinates || coordinates.length < 2) return null;
+        if (speeds) return paceSegments(coordinates, speeds);
+        return {
+            type: 'FeatureCollection',
+            features: [lineFeature(coordinates.map(c => [c.longitude, c.latitude]), strokeColor || Colors.primary)],
+        };
+    }, [coordinates, speeds, strokeColor]);
+
+    if (!geoJSON) return null;
 
     return (
-        <MapLibreGL.ShapeSource id="route-source" shape={geoJSON}>
+        <MapLibreGL.ShapeSource id={`${id}-source`} shape={geoJSON}>
             <MapLibreGL.LineLayer
-                id="route-line"
+                id={`${id}-line`}
                 style={{
-                    lineColor: strokeColor || Colors.primary,
+                    lineColor: ['get', 'color'],
                     lineWidth: strokeWidth || 5,
                     lineCap: 'round',
                     lineJoin: 'round',
@@ -111,6 +185,26 @@ export function SafePolyline({ coordinates, strokeColor, strokeWidth }: Polyline
     );
 }
 
+/** Legend for a pace-coloured SafePolyline; sits on top of the map */
+export function PaceLegend({ avgSpeedMs, style }: { avgSpeedMs: number; style?: any }) {
+    if (avgSpeedMs <= 0) return null;
+    const paceSec = 1000 / avgSpeedMs;
+    const avgLabel = `${Math.floor(paceSec / 60)}:${String(Math.round(paceSec % 60)).padStart(2, '0')} /km`;
+
+    return (
+        <View style={[styles.legend, style]} pointerEvents="none">
+            <Text style={styles.legendText}>Chậm</Text>
+            <View style={styles.legendBar}>
+                {PACE_COLORS.map(color => (
+                    <View key={color} style={[styles.legendSwatch, { backgroundColor: color }]} />
+                ))}
+            </View>
+            <Text style={styles.legendText}>Nhanh</Text>
+            <Text style={styles.legendAvg}>TB {avgLabel}</Text>
+        </View>
+    );
+}
+
 /** Current position marker — uses ShapeSource to avoid camera follow side-effect of PointAnnotation */
 export function UserLocationMarker({ latitude, longitude }: { latitude: number; longitude: number }) {
     const point: GeoJSON.Feature<GeoJSON.Point> = {
@@ -147,6 +241,104 @@ export function UserLocationMarker({ latitude, longitude }: { latitude: number;
     );
 }
 
+interface RouteMarkersProps {
+    /** Unique per map — used for the ShapeSource/layer ids */
+    id?: string;
+    coordinates: { latitude: number; longitude: number }[];
+    /** Numbered distance marks, e.g. from LocationService.getDistanceMarkers */
+    kmMarkers?: { distanceM: number; latitude: number; longitude: number }[];
+}
+
+/** Start and finish pins plus numbered kilometre markers for a saved route */
+export function RouteMarkers({ id = 'route-markers', coordinates, kmMarkers = [] }: RouteMarkersProps) {
+    const shape = useMemo<GeoJSON.FeatureCollection | null>(() => {
+        if (!coordinates || coordinates.length < 2) return null;
+        const start = coordinates[0];
+        const finish = coordinates[coordinates.length - 1];
+        const point = (latitude: number, longitude: number, properties: object): GeoJSON.Feature => ({
+            type: 'Feature',
+            properties,
+            geometry: { type: 'Point', coordinates: [longitude, latitude] },
+        });
+        return {
+            type: 'FeatureCollection',
+            features: [
+                ...kmMarkers.map(m => point(m.latitude, m.longitude, {
+                    kind: 'km',
+                    label: String(Math.round(m.distanceM / 1000)),
+                })),
+                point(start.latitude, start.longitude, { kind: 'start' }),
+                point(finish.latitude, finish.longitude, { kind: 'finish' }),
+            ],
+        };
+    }, [coordinates, kmMarkers]);
+
+    if (!shape) return null;
+
+    return (
+        <MapLibreGL.ShapeSource id={`${id}-source`} shape={shape}>
+            <MapLibreGL.CircleLayer
+                id={`${id}-km-circle`}
+                filter={['==', ['get', 'kind'], 'km']}
+                style={{
+                    circleRadius: 10,
+                    circleColor: '#ffffff',
+                    circleStrokeWidth: 2,
+                    circleStrokeColor: Colors.text,
+                }}
+            />
+            <MapLibreGL.SymbolLayer
+                id={`${id}-km-label`}
+                filter={['==', ['get', 'kind'], 'km']}
+                style={{
+                    textField: ['get', 'label'],
+                    textFont: ['Noto Sans Bold'],
+                    textSize: 11,
+                    textColor: Colors.text,
+                    textAllowOverlap: true,
+                    textIgnorePlacement: true,
+                }}
+            />
+            <MapLibreGL.CircleLayer
+                id={`${id}-endpoints`}
+                filter={['!=', ['get', 'kind'], 'km']}
+                style={{
+                    circleRadius: 8,
+                    circleColor: ['match', ['get', 'kind'], 'start', Colors.primary, Colors.danger],
+                    circleStrokeWidth: 3,
+                    circleStrokeColor: '#ffffff',
+                }}
+            />
+        </MapLibreGL.ShapeSource>
+    );
+}
+
+/** Highlighted point on a route, e.g. the position under a chart scrubber */
+export function RouteHighlightMarker({ latitude, longitude }: { latitude: number; longitude: number }) {
+    const point: GeoJSON.Feature<GeoJSON.Point> = {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+            type: 'Point',
+            coordinates: [longitude, latitude],
+        },
+    };
+
+    return (
+        <MapLibreGL.ShapeSource id="route-highlight-source" shape={point}>
+            <MapLibreGL.CircleLayer
+                id="route-highlight-dot"
+                style={{
+                    circleRadius: 8,
+                    circleColor: Colors.text,
+                    circleStrokeWidth: 3,
+                    circleStrokeColor: '#ffffff',
+                }}
+            />
+        </MapLibreGL.ShapeSource>
+    );
+}
+
 interface MarkerProps {
     coordinate: { latitude: number; longitude: number };
     children?: React.ReactNode;
@@ -203,6 +395,38 @@ const styles = StyleSheet.create({
         borderWidth: 2,
         borderColor: '#fff',
     },
+    legend: {
+        position: 'absolute',
+        left: Spacing.sm,
+        bottom: Spacing.sm,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: Spacing.sm,
+        paddingVertical: 4,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.9)',
+    },
+    legendBar: {
+        flexDirection: 'row',
+        borderRadius: 3,
+        overflow: 'hidden',
+    },
+    legendSwatch: {
+        width: 14,
+        height: 6,
+    },
+    legendText: {
+        fontSize: 10,
+        fontWeight: '600',
+        color: Colors.textSecondary,
+    },
+    legendAvg: {
+        fontSize: 10,
+        fontWeight: '700',
+        color: Colors.text,
+        marginLeft: 4,
+    },
     markerDot: {
         width: 16,
         height: 16,
@@ -0,0 +1,116 @@
+import { BorderRadius, Colors, FontSize, Spacing } from '@/constants/theme';
+import { Split, SplitsService, SplitUnit } from '@/services/SplitsService';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+interface SplitsTableProps {
+    splits: Split[];
+    unit?: SplitUnit;
+}
+
+function formatPace(sec: number): string {
+    const m = Math.floor(sec / 60);
+    const s = Math.round(sec % 60);
+    return `${m}:${String(s).padStart(2, '0')}`;
+}
+
+function formatElevation(m: number | null): string {
+    if (m === null) return '--';
+    const rounded = Math.round(m);
+    return rounded > 0 ? `+${rounded}` : String(rounded);
+}
+
+export function SplitsTable({ splits, unit = 'km' }: SplitsTableProps) {
+    if (splits.length === 0) return null;
+
+    const unitM = SplitsService.unitMeters(unit);
+    const fastest = Math.min(...splits.map(s => s.paceSec));
+    const slowest = Math.max(...splits.map(s => s.paceSec));
+
+    return (
+        <View style={styles.card}>
+            <Text style={styles.title}>Từng {unit === 'km' ? 'km' : 'dặm'}</Text>
+            <View style={styles.headerRow}>
+                <Text style={[styles.headerText, styles.colIndex]}>{unit}</Text>
+                <Text style={[styles.headerText, styles.colPace]}>Tốc độ</Text>
+                <View style={styles.colBar} />
+                <Text style={[styles.headerText, styles.colElevation]}>Độ cao</Text>
+            </View>
+            {splits.map(split => {
+                const isPartial = split.distanceM < unitM - 1;
+                // Bars run from 40% (slowest) to 100% (fastest) so every split stays visible
+                const ratio = slowest > fastest ? (slowest - split.paceSec) / (slowest - fastest) : 1;
+                return (
+                    <View key={split.index} style={styles.row}>
+                        <Text style={[styles.cellText, styles.colIndex]}>
+                            {isPartial ? (split.distanceM / unitM).toFixed(2) : split.index}
+                        </Text>
+                        <Text style={[styles.cellText, styles.colPace, styles.paceText]}>
+                            {formatPace(split.paceSec)}
+                        </Text>
+                        <View style={styles.colBar}>
+                            <View
+                                style={[
+                                    styles.bar,
+                                    { width: `${40 + ratio * 60}%` },
+                                    split.paceSec === fastest && splits.length > 1 && styles.barFastest,
+                                ]}
+                            />
+                        </View>
+                        <Text style={[styles.cellText, styles.colElevation]}>
+                            {formatElevation(split.elevationChangeM)}
+                        </Text>
+                    </View>
+                );
+            })}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    card: {
+        backgroundColor: Colors.backgroundSecondary,
+        borderRadius: BorderRadius.lg,
+        padding: Spacing.lg,
+        marginHorizontal: Spacing.lg,
+        marginBottom: Spacing.lg,
+    },
+    title: {
+        fontSize: FontSize.lg,
+        fontWeight: '700',
+        color: Colors.text,
+        marginBottom: Spacing.md,
+    },
+    headerRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingBottom: Spacing.xs,
+        borderBottomWidth: 1,
+        borderBottomColor: Colors.borderLight,
+    },
+    headerText: {
+        fontSize: FontSize.xs,
+        fontWeight: '700',
+        color: Colors.textSecondary,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 6,
+    },
+    cellText: {
+        fontSize: FontSize.sm,
+        color: Colors.text,
+    },
+    paceText: { fontWeight: '700' },
+    colIndex: { width: 44 },
+    colPace: { width: 56 },
+    colBar: { flex: 1, marginHorizontal: Spacing.sm },
+    colElevation: { width: 52, textAlign: 'right' },
+    bar: {
+        height: 8,
+        borderRadius: 4,
+        backgroundColor: Colors.primaryLight,
+    },
+    barFastest: { backgroundColor: Colors.primary },
+});
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase';
+import { CaloriesService, Sex } from '@/services/CaloriesService';
 import { Session, User } from '@supabase/supabase-js';
 import React, { createContext, useContext, useEffect, useState } from 'react';
 
@@ -7,6 +8,10 @@ interface Profile {
     username: string | null;
     avatar_url: string | null;
     rp_balance: number;
+    weight_kg: number | null;
+    height_cm: number | null;
+    birth_year: number | null;
+    sex: Sex | null;
 }
 
 interface AuthContextType {
@@ -49,6 +54,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                     await fetchProfile(session.user.id);
                 } else {
                     setProfile(null);
+                    CaloriesService.setBodyMetrics(null);
                     setLoading(false);
                 }
             }
@@ -67,6 +73,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
             if (error) throw error;
             setProfile(data);
+            CaloriesService.setBodyMetrics({
+                weightKg: data.weight_kg,
+                heightCm: data.height_cm,
+                birthYear: data.birth_year,
+                sex: data.sex,
+            });
         } catch (error) {
             console.error('Error fetching profile:', error);
         } finally {
@@ -99,6 +111,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const signOut = async () => {
         await supabase.auth.signOut();
         setProfile(null);
+        CaloriesService.setBodyMetrics(null);
     };
 
     return (
@@ -0,0 +1,116 @@
+import { LocationPoint, LocationService, PauseInterval } from './LocationService';
+
+export type EffortKey = '400m' | '1k' | '5k' | '10k' | 'half' | 'longest';
+
+export type BestEffort = {
+    key: EffortKey;
+    distanceM: number;
+    timeSec: number;      // Moving time, paused stretches excluded
+};
+
+// Fastest stretch of each distance within a run, in display order
+export const EFFORT_DISTANCES: { key: EffortKey; meters: number }[] = [
+    { key: '400m', meters: 400 },
+    { key: '1k', meters: 1000 },
+    { key: '5k', meters: 5000 },
+    { key: '10k', meters: 10000 },
+    { key: 'half', meters: 21097.5 },
+];
+
+export const EFFORT_LABELS: Record<EffortKey, string> = {
+    '400m': '400 m',
+    '1k': '1 km',
+    '5k': '5 km',
+    '10k': '10 km',
+    half: 'Bán marathon',
+    longest: 'Chạy xa nhất',
+};
+
+// Faster than the 400 m world record is a GPS jump, not a record
+const MAX_EFFORT_SPEED_MS = 9.5;
+
+/**
+ * Moving distance and time at every point, skipping segments recorded while paused
+ */
+function cumulative(points: LocationPoint[], pauses: PauseInterval[]): { distM: number[]; timeSec: number[] } {
+    const isPausedAt = (t: number) => pauses.some(p => t >= p.start && (p.end === null || t < p.end));
+    const distM = [0];
+    const timeSec = [0];
+
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        const dt = (b.timestamp - a.timestamp) / 1000;
+        const skip = dt < 0 || isPausedAt(a.timestamp) || isPausedAt(b.timestamp);
+        const d = skip ? 0 : LocationService.calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude) * 1000;
+        distM.push(distM[i - 1] + d);
+        timeSec.push(timeSec[i - 1] + (skip ? 0 : dt));
+    }
+    return { distM, timeSec };
+}
+
+/**
+ * Shortest time to cover targetM, ending at a track point and starting at a position
+ * interpolated within a segment so the window is exactly targetM long
+ */
+function fastestWindow(distM: number[], timeSec: number[], targetM: number): number | null {
+    let best: number | null = null;
+    let start = 0;
+
+    for (let end = 1; end < distM.length; end++) {
+        if (distM[end] < targetM) continue;
+        // Latest start point that still leaves at least targetM to the end point
+        while (distM[end] - distM[start + 1] >= targetM) start++;
+
+        const segmentM = distM[start + 1] - distM[start];
+        const f = segmentM > 0 ? (distM[end] - targetM - distM[start]) / segmentM : 0;
+        const startSec = timeSec[start] + f * (timeSec[start + 1] - timeSec[start]);
+        const elapsed = timeSec[end] - startSec;
+        if (elapsed > 0 && (best === null || elapsed < best)) best = elapsed;
+    }
+    return best;
+}
+
+export const BestEffortsService = {
+    /**
+     * Fastest 400 m, 1 km, 5 km, 10 km and half marathon within a timestamped track
+     */
+    computeBestEfforts(points: LocationPoint[], pauses: PauseInterval[] = []): BestEffort[] {
+        if (points.length < 2 || points.some(p => p.timestamp <= 0)) return [];
+
+        const { distM, timeSec } = cumulative(points, pauses);
+        const efforts: BestEffort[] = [];
+        for (const { key, meters } of EFFORT_DISTANCES) {
+            if (distM[distM.length - 1] < meters) break;
+            const time = fastestWindow(distM, timeSec, meters);
+            if (time === null || meters / time > MAX_EFFORT_SPEED_MS) continue;
+            efforts.push({ key, distanceM: meters, timeSec: Math.round(time) });
+        }
+        return efforts;
+    },
+
+    /**
+     * Best efforts for a workout: the route's fastest stretches plus the run's own length,
+     * which counts towards the longest run whether or not it has a route
+     */
+    forWorkout(routeGeoJSON: any, distanceKm: number, durationSec: number): BestEffort[] {
+        const efforts = routeGeoJSON
+            ? this.computeBestEfforts(
+                LocationService.toLocationPoints(routeGeoJSON),
+                LocationService.getPauses(routeGeoJSON)
+            )
+            : [];
+        if (distanceKm > 0) {
+            efforts.push({ key: 'longest', distanceM: Math.round(distanceKm * 1000), timeSec: durationSec });
+        }
+        return efforts;
+    },
+
+    /**
+     * Whether an effort beats another of the same kind: faster, or for the longest run, farther
+     */
+    isBetter(effort: BestEffort, than: BestEffort): boolean {
+        if (effort.key === 'longest') return effort.distanceM > than.distanceM;
+        return effort.timeSec < than.timeSec;
+    },
+};
@@ -0,0 +1,219 @@
+import { LocationPoint, LocationService, PauseInterval } from './LocationService';
+
+export type Sex = 'male' | 'female';
+
+export type BodyMetrics = {
+    weightKg: number | null;
+    heightCm: number | null;
+    birthYear: number | null;
+    sex: Sex | null;
+};
+
+// Used for anything the runner hasn't filled in
+const DEFAULT_WEIGHT_KG = 70;
+const DEFAULT_HEIGHT_CM = 170;
+const DEFAULT_AGE = 30;
+
+// Energy cost follows the ACSM metabolic equations (VO2 in ml/kg/min, speed in m/min):
+//   walking  VO2 = 0.1·v + 1.8·v·grade + rest
+//   running  VO2 = 0.2·v + 0.9·v·grade + rest
+// Per meter that is a fixed horizontal cost plus a climbing cost; downhill is treated as
+// flat because the equations don't model the saving.
+const WALK_COST_ML_PER_KG_M = 0.1;
+const WALK_GRADE_COST = 1.8;
+const RUN_COST_ML_PER_KG_M = 0.2;
+const RUN_GRADE_COST = 0.9;
+const WALK_RUN_SPEED_MS = 2.0;     // ~7 km/h, where people switch from walking to running
+const STANDING_SPEED_MS = 0.5;     // Slower than this only the resting cost applies
+const MAX_GRADE = 0.3;
+const KCAL_PER_LITRE_O2 = 5;
+// The live count smooths speed and altitude over the distance just covered
+const LIVE_SPEED_WINDOW_M = 100;
+const LIVE_ALTITUDE_WINDOW_M = 50;
+
+export type CalorieCounter = {
+    /** Add the segment ending at the next track point; returns the total so far */
+    push(point: LocationPoint, pauses: PauseInterval[]): number;
+};
+
+let bodyMetrics: BodyMetrics | null = null;
+
+/**
+ * Resting oxygen uptake (ml/kg/min) from Mifflin-St Jeor BMR, in place of the textbook
+ * 3.5 ml/kg/min that overstates it for heavier and older runners
+ */
+function restingVO2(weightKg: number): number {
+    const heightCm = bodyMetrics?.heightCm ?? DEFAULT_HEIGHT_CM;
+    const age = bodyMetrics?.birthYear ? new Date().getFullYear() - bodyMetrics.birthYear : DEFAULT_AGE;
+    // Halfway between the male (+5) and female (-161) constants when sex isn't set
+    const sexConstant = bodyMetrics?.sex === 'male' ? 5 : bodyMetrics?.sex === 'female' ? -161 : -78;
+    const bmrKcalPerDay = 10 * weightKg + 6.25 * heightCm - 5 * age + sexConstant;
+    return ((bmrKcalPerDay / 1440) / KCAL_PER_LITRE_O2) * 1000 / weightKg;
+}
+
+/**
+ * Oxygen cost (ml/kg) of moving distanceM at speedMs up a grade
+ */
+function movementCost(distanceM: number, speedMs: number, grade: number): number {
+    if (speedMs < STANDING_SPEED_MS) return 0;
+    const climb = Math.min(Math.max(grade, 0), MAX_GRADE);
+    return speedMs < WALK_RUN_SPEED_MS
+        ? distanceM * (WALK_COST_ML_PER_KG_M + WALK_GRADE_COST * climb)
+        : distanceM * (RUN_COST_ML_PER_KG_M + RUN_GRADE_COST * climb);
+}
+
+/**
+ * Whether time t falls in a pause. Only the latest pauses are checked, which is enough
+ * for the newest points of a track being recorded.
+ */
+function isPausedRecently(t: number, pauses: PauseInterval[]): boolean {
+    for (let i = pauses.length - 1; i >= 0; i--) {
+        const p = pauses[i];
+        if (t >= p.start && (p.end === null || t < p.end)) return true;
+        if (p.end !== null && p.end <= t) return false;
+    }
+    return false;
+}
+
+function toKcal(oxygenMlPerKg: number, weightKg: number): number {
+    return Math.round((oxygenMlPerKg * weightKg / 1000) * KCAL_PER_LITRE_O2);
+}
+
+/**
+ * Smoothed altitude at each cumulative distance, or null when the track has no altitudes
+ */
+function altitudesAt(points: LocationPoint[], distances: number[]): (number | null)[] {
+    const profile = LocationService.getElevationProfile(points);
+    if (profile.length === 0) return distances.map(() => null);
+
+    let j = 0;
+    return distances.map(d => {
+        while (j < profile.length - 1 && profile[j + 1].distanceM <= d) j++;
+        const a = profile[j];
+        const b = profile[Math.min(j + 1, profile.length - 1)];
+        if (b.distanceM <= a.distanceM || d <= a.distanceM) return a.altitude;
+        const f = Math.min((d - a.distanceM) / (b.distanceM - a.distanceM), 1);
+        return a.altitude + f * (b.altitude - a.altitude);
+    });
+}
+
+export const CaloriesService = {
+    /**
+     * Body metrics used by every estimate; set from the signed-in user's profile
+     */
+    setBodyMetrics(metrics: BodyMetrics | null): void {
+        bodyMetrics = metrics;
+    },
+
+    /**
+     * Calories for a recorded track, summed per segment: each is costed as walking or
+     * running from its smoothed speed, with the climb from the smoothed elevation profile.
+     * Paused segments cost nothing; moving time also burns the resting rate.
+     */
+    forTrack(points: LocationPoint[], pauses: PauseInterval[] = []): number {
+        if (points.length < 2 || points.some(p => p.timestamp <= 0)) return 0;
+        const weightKg = bodyMetrics?.weightKg ?? DEFAULT_WEIGHT_KG;
+        const isPausedAt = (t: number) => pauses.some(p => t >= p.start && (p.end === null || t < p.end));
+
+        const distances = [0];
+        for (let i = 1; i < points.length; i++) {
+            distances.push(distances[i - 1] + LocationService.calculateDistance(
+                points[i - 1].latitude, points[i - 1].longitude,
+                points[i].latitude, points[i].longitude
+            ) * 1000);
+        }
+        const altitudes = altitudesAt(points, distances);
+        const speeds = LocationService.speedsAtPoints(
+            LocationService.getPaceProfile(points, pauses),
+            points.length
+        );
+
+        let oxygen = 0;
+        let movingMin = 0;
+        for (let i = 1; i < points.length; i++) {
+            const a = points[i - 1];
+            const b = points[i];
+            const dt = (b.timestamp - a.timestamp) / 1000;
+            if (dt <= 0 || isPausedAt(a.timestamp) || isPausedAt(b.timestamp)) continue;
+
+            const d = distances[i] - distances[i - 1];
+            const altA = altitudes[i - 1];
+            const altB = altitudes[i];
+            const grade = d > 1 && altA !== null && altB !== null ? (altB - altA) / d : 0;
+            const speed = ((speeds[i - 1] ?? d / dt) + (speeds[i] ?? d / dt)) / 2;
+
+            oxygen += movementCost(d, speed, grade);
+            movingMin += dt / 60;
+        }
+        return toKcal(oxygen + restingVO2(weightKg) * movingMin, weightKg);
+    },
+
+    /**
+     * A running count for a track being recorded, costed like forTrack but one segment at
+     * a time from trailing averages, so each fix costs the same however long the run is.
+     * It can differ a little from forTrack, which should give the saved value.
+     */
+    createCounter(): CalorieCounter {
+        let oxygen = 0;
+        let movingMin = 0;
+        let prev: LocationPoint | null = null;
+        let prevAltitude: number | null = null;
+        let distanceM = 0;
+        let timeSec = 0;
+        // Recent moving points: cumulative distance and time, and altitude
+        let recent: { distanceM: number; timeSec: number; altitude: number | null }[] = [];
+
+        return {
+            push(point, pauses) {
+                const a = prev;
+                prev = point;
+                if (!a || point.timestamp <= 0 || a.timestamp <= 0) {
+                    recent = [{ distanceM, timeSec, altitude: point.altitude }];
+                    prevAltitude = point.altitude;
+                } else if (isPausedRecently(a.timestamp, pauses) || isPausedRecently(point.timestamp, pauses)) {
+                    // Paused segments cost nothing; speed is measured afresh afterwards
+                    recent = [{ distanceM, timeSec, altitude: point.altitude }];
+                } else {
+                    const d = LocationService.calculateDistance(
+                        a.latitude, a.longitude, point.latitude, point.longitude
+                    ) * 1000;
+                    const dt = (point.timestamp - a.timestamp) / 1000;
+                    if (dt > 0) {
+                        distanceM += d;
+                        timeSec += dt;
+                        recent.push({ distanceM, timeSec, altitude: point.altitude });
+                        while (recent.length > 2 && recent[1].distanceM <= distanceM - LIVE_SPEED_WINDOW_M) recent.shift();
+
+                        const first = recent[0];
+                        const speed = timeSec > first.timeSec ? (distanceM - first.distanceM) / (timeSec - first.timeSec) : d / dt;
+                        const altitudes = recent
+                            .filter(r => r.distanceM >= distanceM - LIVE_ALTITUDE_WINDOW_M && r.altitude !== null)
+                            .map(r => r.altitude as number);
+                        const altitude = altitudes.length > 0
+                            ? altitudes.reduce((sum, x) => sum + x, 0) / altitudes.length
+                            : null;
+                        const grade = d > 1 && altitude !== null && prevAltitude !== null ? (altitude - prevAltitude) / d : 0;
+                        if (altitude !== null) prevAltitude = altitude;
+
+                        oxygen += movementCost(d, speed, grade);
+                        movingMin += dt / 60;
+                    }
+                }
+                const weightKg = bodyMetrics?.weightKg ?? DEFAULT_WEIGHT_KG;
+                return toKcal(oxygen + restingVO2(weightKg) * movingMin, weightKg);
+            },
+        };
+    },
+
+    /**
+     * Calories for a run known only by its distance and time (manual, treadmill),
+     * costed on the flat at its average speed
+     */
+    forDistance(distanceKm: number, durationSec: number): number {
+        if (durationSec <= 0) return 0;
+        const weightKg = bodyMetrics?.weightKg ?? DEFAULT_WEIGHT_KG;
+        const distanceM = distanceKm * 1000;
+        const oxygen = movementCost(distanceM, distanceM / durationSec, 0) + restingVO2(weightKg) * (durationSec / 60);
+        return toKcal(oxygen, weightKg);
+    },
+};
@@ -0,0 +1,224 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { AppState, NativeEventSubscription, Platform } from 'react-native';
+
+// One file per workout, named after its start time so workout-detail can find it
+const DIAGNOSTICS_DIR = 'diagnostics';
+const MAX_RECORDINGS = 10;          // Older recordings are deleted when a new one starts
+const FLUSH_INTERVAL_MS = 30000;    // Written periodically so a crash loses at most this much
+// Motion samples held while writes keep failing (10 min at 25 Hz); older ones are dropped
+// and the gap is noted in the recording
+const MAX_PENDING_MOTION = 15000;
+
+export type DiagnosticFix = {
+    receivedAt: number;
+    timestamp: number;
+    latitude: number;
+    longitude: number;
+    altitude: number | null;
+    accuracy: number | null;
+    speed: number | null;
+    mocked: boolean | null;
+};
+
+// A recording is newline-delimited JSON, one entry per line, so each flush only appends
+// what was recorded since the last one
+type Entry =
+    | { type: 'header'; version: 2; startedAt: number; platform: string; platformVersion: string | number }
+    | ({ type: 'fix' } & DiagnosticFix)
+    | { type: 'motion'; samples: [number, number, number, number][] } // [time, x, y, z] in g
+    | { type: 'motionDropped'; count: number; from: number; to: number }
+    | { type: 'appState'; at: number; state: string };
+
+let startedAtMs: number | null = null;
+let pending: Entry[] = [];
+let pendingMotion: [number, number, number, number][] = [];
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+
+function diagnosticsDir(): Directory {
+    const dir = new Directory(Paths.document, DIAGNOSTICS_DIR);
+    if (!dir.exists) dir.create({ idempotent: true });
+    return dir;
+}
+
+function recordingFile(startedAt: number): File {
+    return new File(diagnosticsDir(), `diagnostics-${startedAt}.ndjson`);
+}
+
+/**
+ * The recording for a workout, including ones written as a single JSON document
+ * before recordings were appended
+ */
+function existingRecording(startedAt: number): File | null {
+    const file = recordingFile(startedAt);
+    if (file.exists) return file;
+    const legacy = new File(diagnosticsDir(), `diagnostics-${startedAt}.json`);
+    return legacy.exists ? legacy : null;
+}
+
+/**
+ * Append everything recorded since the last flush; kept for the next try if the write fails
+ */
+function flush() {
+    if (startedAtMs === null) return;
+    const entries = pendingMotion.length > 0
+        ? [...pending, { type: 'motion' as const, samples: pendingMotion }]
+        : pending;
+    if (entries.length === 0) return;
+
+    try {
+        const file = recordingFile(startedAtMs);
+        if (!file.exists) file.create();
+        const handle = file.open();
+        try {
+            handle.offset = handle.size;
+            handle.writeBytes(new TextEncoder().encode(entries.map(e => JSON.stringify(e)).join('\n') + '\n'));
+        } finally {
+            handle.close();
+        }
+        pending = [];
+        pendingMotion = [];
+    } catch (error) {
+        console.error('Error writing diagnostics:', error);
+    }
+}
+
+function pruneRecordings() {
+    try {
+        const files = diagnosticsDir().list()
+            .filter((f): f is File => f instanceof File && /^diagnostics-\d+\.(nd)?json$/.test(f.name))
+            .sort((a, b) => Number(b.name.match(/\d+/)![0]) - Number(a.name.match(/\d+/)![0]));
+        files.slice(MAX_RECORDINGS).forEach(f => f.delete());
+    } catch (error) {
+        console.error('Error pruning diagnostics:', error);
+    }
+}
+
+export const DiagnosticsService = {
+    /**
+     * Start recording for a workout. A recording already on disk for the same start
+     * time (a resumed workout) is appended to rather than replaced.
+     */
+    async start(startedAt: number): Promise<void> {
+        this.stop();
+        pruneRecordings();
+
+        startedAtMs = startedAt;
+        pending = [];
+        pendingMotion = [];
+        try {
+            if (!recordingFile(startedAt).exists) {
+                pending.push({
+                    type: 'header',
+                    version: 2,
+                    startedAt,
+                    platform: Platform.OS,
+                    platformVersion: Platform.Version,
+                });
+            }
+        } catch (error) {
+            console.error('Error opening diagnostics:', error);
+        }
+
+        pending.push({ type: 'appState', at: Date.now(), state: AppState.currentState });
+        appStateSubscription = AppState.addEventListener('change', (state) => {
+            pending.push({ type: 'appState', at: Date.now(), state });
+            // The app may not come back — write while we still can
+            if (state !== 'active') flush();
+        });
+        flushTimer = setInterval(flush, FLUSH_INTERVAL_MS);
+    },
+
+    /**
+     * Write what has been recorded and stop
+     */
+    stop(): void {
+        flush();
+        if (flushTimer) clearInterval(flushTimer);
+        flushTimer = null;
+        appStateSubscription?.remove();
+        appStateSubscription = null;
+        startedAtMs = null;
+        pending = [];
+        pendingMotion = [];
+    },
+
+    isRecording(): boolean {
+        return startedAtMs !== null;
+    },
+
+    /**
+     * Record a location fix as it entered the tracking pipeline
+     */
+    recordFix(fix: Omit<DiagnosticFix, 'receivedAt'>): void {
+        if (startedAtMs === null) return;
+        pending.push({ type: 'fix', receivedAt: Date.now(), ...fix });
+    },
+
+    /**
+     * Record a raw accelerometer sample (g)
+     */
+    recordMotion(x: number, y: number, z: number): void {
+        if (startedAtMs === null) return;
+        if (pendingMotion.length >= MAX_PENDING_MOTION) {
+            const dropped = pendingMotion.splice(0, pendingMotion.length / 2);
+            pending.push({ type: 'motionDropped', count: dropped.length, from: dropped[0][0], to: dropped[dropped.length - 1][0] });
+        }
+        pendingMotion.push([Date.now(), x, y, z]);
+    },
+
+    /**
+     * Whether a recording was saved for the workout that started at this time
+     */
+    hasRecording(startedAt: string | null): boolean {
+        if (!startedAt) return false;
+        try {
+            return existingRecording(new Date(startedAt).getTime()) !== null;
+        } catch {
+            return false;
+        }
+    },
+
+    /**
+     * The location fixes in a workout's recording, as they entered the tracking pipeline
+     */
+    async readFixes(startedAt: string): Promise<DiagnosticFix[]> {
+        const file = existingRecording(new Date(startedAt).getTime());
+        if (!file) return [];
+        const text = await file.text();
+        if (file.name.endsWith('.json')) return JSON.parse(text).fixes ?? [];
+
+        const fixes: DiagnosticFix[] = [];
+        for (const line of text.split('\n')) {
+            if (!line) continue;
+            try {
+                const entry: Entry = JSON.parse(line);
+                if (entry.type === 'fix') {
+                    const { type, ...fix } = entry;
+                    fixes.push(fix);
+                }
+            } catch {
+                // The app was killed mid-write; the rest of the recording is still usable
+            }
+        }
+        return fixes;
+    },
+
+    /**
+     * Open the system share sheet for a workout's recording
+     */
+    async shareRecording(startedAt: string): Promise<void> {
+        if (!(await Sharing.isAvailableAsync())) {
+            throw new Error('Sharing is not available on this device');
+        }
+        const file = existingRecording(new Date(startedAt).getTime());
+        if (!file) throw new Error('Không có dữ liệu chẩn đoán cho bài chạy này');
+        const isLegacy = file.name.endsWith('.json');
+        await Sharing.shareAsync(file.uri, {
+            mimeType: isLegacy ? 'application/json' : 'application/x-ndjson',
+            UTI: isLegacy ? 'public.json' : 'public.plain-text',
+            dialogTitle: file.name,
+        });
+    },
+};
@@ -0,0 +1,256 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { LocationPoint, LocationService, PauseInterval } from './LocationService';
+
+const LAP_DISTANCE_M = 1000;
+
+export type ExportableWorkout = {
+    id: string;
+    date: string;
+    started_at: string | null;
+    duration_sec: number;
+    distance_km: number;
+    calories: number;
+    route_geojson: any;
+};
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function isoTime(ms: number): string {
+    return new Date(ms).toISOString();
+}
+
+function workoutName(workout: ExportableWorkout): string {
+    return `LeLeRun ${workout.date}`;
+}
+
+/**
+ * Timestamp for every point — routes without stored timestamps are spread evenly over the duration
+ */
+function pointTimes(workout: ExportableWorkout, points: LocationPoint[]): number[] {
+    if (points.every(p => p.timestamp > 0)) return points.map(p => p.timestamp);
+    const start = workout.started_at ? new Date(workout.started_at).getTime() : Date.now();
+    const step = points.length > 1 ? (workout.duration_sec * 1000) / (points.length - 1) : 0;
+    return points.map((_, i) => start + i * step);
+}
+
+/**
+ * Whether the segment ending at point i was recorded while paused
+ */
+function isPausedSegment(times: number[], pauses: PauseInterval[], i: number): boolean {
+    const isPausedAt = (t: number) => pauses.some(p => t >= p.start && (p.end === null || t < p.end));
+    return isPausedAt(times[i - 1]) || isPausedAt(times[i]);
+}
+
+/**
+ * Moving distance covered so far at every point (meters); paused stretches add nothing
+ */
+function cumulativeDistances(points: LocationPoint[], times: number[], pauses: PauseInterval[]): number[] {
+    const distances = [0];
+    for (let i = 1; i < points.length; i++) {
+        const d = isPausedSegment(times, pauses, i) ? 0 : LocationService.calculateDistance(
+            points[i - 1].latitude, points[i - 1].longitude,
+            points[i].latitude, points[i].longitude
+        ) * 1000;
+        distances.push(distances[i - 1] + d);
+    }
+    return distances;
+}
+
+export const ExportService = {
+    /**
+     * Serialize a workout as a GPX 1.1 track (time and elevation per point)
+     */
+    toGPX(workout: ExportableWorkout): string {
+        const points = LocationService.toLocationPoints(workout.route_geojson);
+        const startTime = workout.started_at ?? (points[0]?.timestamp ? isoTime(points[0].timestamp) : null);
+        const name = escapeXml(workoutName(workout));
+
+        const trkpts = points.map(p => {
+            const ele = p.altitude !== null ? `<ele>${p.altitude.toFixed(1)}</ele>` : '';
+            const time = p.timestamp > 0 ? `<time>${isoTime(p.timestamp)}</time>` : '';
+            return `      <trkpt lat="${p.latitude.toFixed(7)}" lon="${p.longitude.toFixed(7)}">${ele}${time}</trkpt>`;
+        });
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<gpx version="1.1" creator="LeLeRun" xmlns="http://www.topografix.com/GPX/1/1"'
+            + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+            + ' xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+            '  <metadata>',
+            `    <name>${name}</name>`,
+            ...(startTime ? [`    <time>${startTime}</time>`] : []),
+            '  </metadata>',
+            '  <trk>',
+            `    <name>${name}</name>`,
+            '    <type>running</type>',
+            '    <trkseg>',
+            ...trkpts,
+            '    </trkseg>',
+            '  </trk>',
+            '</gpx>',
+            '',
+        ].join('\n');
+    },
+
+    /**
+     * Serialize a workout as Garmin TCX: one lap per kilometre of moving distance, with
+     * distance-so-far, speed and altitude on every trackpoint and calories split across
+     * laps by distance. Lap times and distances leave out paused stretches, and the last
+     * lap takes whatever the fixes don't cover, so laps add up to the saved totals.
+     * A workout without a route gets a single lap from its totals, as TCX needs at least one.
+     */
+    toTCX(workout: ExportableWorkout): string {
+        const points = LocationService.toLocationPoints(workout.route_geojson);
+        const pauses = LocationService.getPauses(workout.route_geojson);
+        const times = pointTimes(workout, points);
+        const distances = cumulativeDistances(points, times, pauses);
+        const totalM = distances[distances.length - 1] || 0;
+        const startTime = workout.started_at
+            ? new Date(workout.started_at).toISOString()
+            : isoTime(times[0] ?? Date.now());
+
+        // Lap boundaries: index of the first point at or past each kilometre mark
+        const lapStarts = [0];
+        for (let i = 1; i < points.length; i++) {
+            if (Math.floor(distances[i] / LAP_DISTANCE_M) > Math.floor(distances[i - 1] / LAP_DISTANCE_M)
+                && i < points.length - 1) {
+                lapStarts.push(i);
+            }
+        }
+
+        // What the laps add up to: the saved distance, or the track's if that's longer
+        const lapsTotalM = Math.max(totalM, workout.distance_km * 1000);
+        let lapsM = 0;
+        let lapsSec = 0;
+        const laps = points.length === 0 ? [] : lapStarts.map((start, lapIndex) => {
+            const isLastLap = lapIndex + 1 === lapStarts.length;
+            // Measured up to the next lap's first point so no distance falls between laps
+            const end = isLastLap ? points.length - 1 : lapStarts[lapIndex + 1];
+            const lastPoint = isLastLap ? end : end - 1;
+            let lapM = Math.max(0, distances[end] - distances[start]);
+            let lapSec = 0;
+            for (let i = start + 1; i <= end; i++) {
+                if (!isPausedSegment(times, pauses, i)) lapSec += Math.max(0, (times[i] - times[i - 1]) / 1000);
+            }
+            if (isLastLap) {
+                lapM = Math.max(lapM, workout.distance_km * 1000 - lapsM);
+                lapSec = Math.max(lapSec, workout.duration_sec - lapsSec);
+            }
+            lapsM += lapM;
+            lapsSec += lapSec;
+            const lapCalories = lapsTotalM > 0 ? Math.round(workout.calories * (lapM / lapsTotalM)) : 0;
+
+            const trackpoints: string[] = [];
+            let maxSpeed = 0;
+            for (let i = start; i <= lastPoint; i++) {
+                const p = points[i];
+                const dt = i > 0 ? (times[i] - times[i - 1]) / 1000 : 0;
+                const speed = p.speed !== null && p.speed >= 0
+                    ? p.speed
+                    : dt > 0 ? (distances[i] - distances[i - 1]) / dt : 0;
+                maxSpeed = Math.max(maxSpeed, speed);
+                trackpoints.push([
+                    '          <Trackpoint>',
+                    `            <Time>${isoTime(times[i])}</Time>`,
+                    '            <Position>',
+                    `              <LatitudeDegrees>${p.latitude.toFixed(7)}</LatitudeDegrees>`,
+                    `              <LongitudeDegrees>${p.longitude.toFixed(7)}</LongitudeDegrees>`,
+                    '            </Position>',
+                    ...(p.altitude !== null ? [`            <AltitudeMeters>${p.altitude.toFixed(1)}</AltitudeMeters>`] : []),
+                    `            <DistanceMeters>${distances[i].toFixed(1)}</DistanceMeters>`,
+                    '            <Extensions>',
+                    `              <ns3:TPX><ns3:Speed>${speed.toFixed(2)}</ns3:Speed></ns3:TPX>`,
+                    '            </Extensions>',
+                    '          </Trackpoint>',
+                ].join('\n'));
+            }
+
+            return [
+                `      <Lap StartTime="${isoTime(times[start])}">`,
+                `        <TotalTimeSeconds>${lapSec.toFixed(1)}</TotalTimeSeconds>`,
+                `        <DistanceMeters>${lapM.toFixed(1)}</DistanceMeters>`,
+                `        <MaximumSpeed>${maxSpeed.toFixed(2)}</MaximumSpeed>`,
+                `        <Calories>${lapCalories}</Calories>`,
+                '        <Intensity>Active</Intensity>',
+                `        <TriggerMethod>${isLastLap ? 'Manual' : 'Distance'}</TriggerMethod>`,
+                '        <Track>',
+                ...trackpoints,
+                '        </Track>',
+                '      </Lap>',
+            ].join('\n');
+        });
+
+        const summaryLap = [
+            `      <Lap StartTime="${startTime}">`,
+            `        <TotalTimeSeconds>${workout.duration_sec.toFixed(1)}</TotalTimeSeconds>`,
+            `        <DistanceMeters>${(workout.distance_km * 1000).toFixed(1)}</DistanceMeters>`,
+            `        <Calories>${Math.round(workout.calories)}</Calories>`,
+            '        <Intensity>Active</Intensity>',
+            '        <TriggerMethod>Manual</TriggerMethod>',
+            '      </Lap>',
+        ].join('\n');
+
+        return [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"'
+            + ' xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"'
+            + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+            + ' xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2'
+            + ' http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">',
+            '  <Activities>',
+            '    <Activity Sport="Running">',
+            `      <Id>${startTime}</Id>`,
+            ...(points.length > 0 ? laps : [summaryLap]),
+            `      <Notes>${escapeXml(workoutName(workout))}</Notes>`,
+            '    </Activity>',
+            '  </Activities>',
+            '</TrainingCenterDatabase>',
+            '',
+        ].join('\n');
+    },
+
+    /**
+     * Write content to a cache file and open the system share sheet for it
+     */
+    async shareFile(fileName: string, content: string, mimeType: string, uti?: string): Promise<void> {
+        if (!(await Sharing.isAvailableAsync())) {
+            throw new Error('Sharing is not available on this device');
+        }
+        const file = new File(Paths.cache, fileName);
+        file.create({ overwrite: true });
+        file.write(content);
+        await Sharing.shareAsync(file.uri, { mimeType, UTI: uti, dialogTitle: fileName });
+    },
+
+    /**
+     * Export a workout as GPX through the share sheet
+     */
+    async shareGPX(workout: ExportableWorkout): Promise<void> {
+        await this.shareFile(
+            `lelerun-${workout.date}-${workout.id.slice(0, 8)}.gpx`,
+            this.toGPX(workout),
+            'application/gpx+xml',
+            'com.topografix.gpx'
+        );
+    },
+
+    /**
+     * Export a workout as TCX through the share sheet
+     */
+    async shareTCX(workout: ExportableWorkout): Promise<void> {
+        await this.shareFile(
+            `lelerun-${workout.date}-${workout.id.slice(0, 8)}.tcx`,
+            this.toTCX(workout),
+            'application/vnd.garmin.tcx+xml',
+            'com.garmin.tcx'
+        );
+    },
+};
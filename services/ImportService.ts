@@ -0,0 +1,165 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { CaloriesService } from './CaloriesService';
+import { LocationPoint, LocationService } from './LocationService';
+
+export type ImportedWorkout = {
+    points: LocationPoint[];
+    distanceKm: number;
+    durationSec: number; // Moving time
+    elapsedSec: number;
+    calories: number;
+    routeGeoJSON: object;
+    startedAt: string;
+    finishedAt: string;
+};
+
+/**
+ * Text content of the first matching element, ignoring any namespace prefix
+ */
+function tagValue(xml: string, tag: string): string | null {
+    const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([^<]*)</(?:\\w+:)?${tag}>`));
+    return match ? match[1].trim() : null;
+}
+
+function attrValue(attrs: string, name: string): string | null {
+    const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+    return match ? match[1] : null;
+}
+
+function toNumber(value: string | null): number | null {
+    if (value === null || value === '') return null;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+}
+
+function toTimestamp(value: string | null): number {
+    const t = value ? Date.parse(value) : NaN;
+    return Number.isFinite(t) ? t : 0;
+}
+
+export const ImportService = {
+    /**
+     * Parse GPX track points (lat/lon attributes, optional ele and time)
+     */
+    parseGPX(xml: string): LocationPoint[] {
+        const points: LocationPoint[] = [];
+        const trkpt = /<(?:\w+:)?trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?trkpt>)/g;
+        for (const match of xml.matchAll(trkpt)) {
+            const latitude = toNumber(attrValue(match[1], 'lat'));
+            const longitude = toNumber(attrValue(match[1], 'lon'));
+            if (latitude === null || longitude === null) continue;
+            const body = match[2] ?? '';
+            points.push({
+                latitude,
+                longitude,
+                altitude: toNumber(tagValue(body, 'ele')),
+                timestamp: toTimestamp(tagValue(body, 'time')),
+                speed: toNumber(tagValue(body, 'speed')),
+                accuracy: null,
+            });
+        }
+        return points;
+    },
+
+    /**
+     * Parse TCX trackpoints; points without a position (e.g. treadmill samples) are skipped
+     */
+    parseTCX(xml: string): LocationPoint[] {
+        const points: LocationPoint[] = [];
+        const trackpoint = /<(?:\w+:)?Trackpoint\b[^>]*>([\s\S]*?)<\/(?:\w+:)?Trackpoint>/g;
+        for (const match of xml.matchAll(trackpoint)) {
+            const body = match[1];
+            const latitude = toNumber(tagValue(body, 'LatitudeDegrees'));
+            const longitude = toNumber(tagValue(body, 'LongitudeDegrees'));
+            if (latitude === null || longitude === null) continue;
+            points.push({
+                latitude,
+                longitude,
+                altitude: toNumber(tagValue(body, 'AltitudeMeters')),
+                timestamp: toTimestamp(tagValue(body, 'Time')),
+                speed: toNumber(tagValue(body, 'Speed')),
+                accuracy: null,
+            });
+        }
+        return points;
+    },
+
+    /**
+     * Timestamped points of a GPX or TCX document, oldest first
+     */
+    parsePoints(fileName: string, xml: string): LocationPoint[] {
+        const isTCX = /\.tcx$/i.test(fileName) || /<TrainingCenterDatabase\b/.test(xml);
+        return (isTCX ? this.parseTCX(xml) : this.parseGPX(xml))
+            .filter(p => p.timestamp > 0)
+            .sort((a, b) => a.timestamp - b.timestamp);
+    },
+
+    /**
+     * Parse a GPX or TCX document into a workout, with distance, duration and calories
+     * computed the same way as a recorded run
+     */
+    parseWorkout(fileName: string, xml: string): ImportedWorkout {
+        const points = this.parsePoints(fileName, xml);
+
+        if (points.length < 2) {
+            throw new Error('Tệp không có đủ điểm GPS có thời gian');
+        }
+
+        const track = LocationService.filterTrack(points);
+        const distanceKm = LocationService.calculateTotalDistance(track);
+        const durationSec = LocationService.calculateMovingTime(track);
+        const first = points[0].timestamp;
+        const last = points[points.length - 1].timestamp;
+
+        return {
+            points: track,
+            distanceKm,
+            durationSec,
+            elapsedSec: Math.round((last - first) / 1000),
+            calories: CaloriesService.forTrack(track),
+            routeGeoJSON: LocationService.toGeoJSON(track),
+            startedAt: new Date(first).toISOString(),
+            finishedAt: new Date(last).toISOString(),
+        };
+    },
+
+    /**
+     * Let the user pick a GPX/TCX file from device storage and read its contents.
+     * Returns data null with no error when the picker was cancelled.
+     */
+    async pickWorkoutXml(): Promise<{ data: { name: string; xml: string } | null; error: { message: string } | null }> {
+        const result = await DocumentPicker.getDocumentAsync({
+            type: ['application/gpx+xml', 'application/vnd.garmin.tcx+xml', 'application/xml', 'text/xml', '*/*'],
+            copyToCacheDirectory: true,
+        });
+        if (result.canceled) return { data: null, error: null };
+
+        const asset = result.assets[0];
+        if (!/\.(gpx|tcx)$/i.test(asset.name)) {
+            return { data: null, error: { message: 'Chỉ hỗ trợ tệp .gpx hoặc .tcx' } };
+        }
+
+        try {
+            const xml = await new File(asset.uri).text();
+            return { data: { name: asset.name, xml }, error: null };
+        } catch (error: any) {
+            return { data: null, error: { message: error.message || 'Không đọc được tệp' } };
+        }
+    },
+
+    /**
+     * Let the user pick a GPX/TCX file from device storage and parse it.
+     * Returns data null with no error when the picker was cancelled.
+     */
+    async pickWorkoutFile(): Promise<{ data: ImportedWorkout | null; error: { message: string } | null }> {
+        const { data: file, error } = await this.pickWorkoutXml();
+        if (error || !file) return { data: null, error };
+
+        try {
+            return { data: this.parseWorkout(file.name, file.xml), error: null };
+        } catch (parseError: any) {
+            return { data: null, error: { message: parseError.message || 'Không đọc được tệp' } };
+        }
+    },
+};
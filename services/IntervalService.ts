@@ -0,0 +1,414 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Haptics from 'expo-haptics';
+import { MotionState } from './MotionService';
+import { VoiceCoachService, VoiceLanguage } from './VoiceCoachService';
+
+const LAST_PLAN_KEY = 'interval_last_plan';
+const LAST_RUN_WALK_KEY = 'run_walk_last_plan';
+// Time steps tick a light haptic over their final seconds
+const COUNTDOWN_SEC = 3;
+// Run/walk: give the runner this long to change gait, then remind them once if the
+// accelerometer disagrees with the step for MISMATCH_SEC straight
+const SWITCH_GRACE_SEC = 10;
+const MISMATCH_SEC = 8;
+
+export type StepKind = 'warmup' | 'work' | 'recovery' | 'cooldown' | 'run' | 'walk';
+
+export type MotionBreakdown = Record<MotionState, number>; // Seconds in each motion state
+
+export type StepLength =
+    | { type: 'distance'; meters: number }
+    | { type: 'time'; seconds: number };
+
+export type IntervalStep = {
+    kind: StepKind;
+    length: StepLength;
+    targetPaceSecPerKm: number | null;
+    repeat: number | null;    // 1-based, for the repeated steps
+};
+
+// What the builder edits; expanded into a flat list of steps to run
+export type IntervalPlan = {
+    warmup: StepLength | null;
+    repeats: number;
+    work: StepLength;
+    workPaceSecPerKm: number | null;
+    recovery: StepLength | null;
+    cooldown: StepLength | null;
+};
+
+// Beginner run/walk: alternate running and walking, finishing on a walk
+export type RunWalkPlan = {
+    runSec: number;
+    walkSec: number;
+    repeats: number;
+};
+
+export type StepResult = {
+    kind: StepKind;
+    repeat: number | null;
+    length: StepLength;
+    targetPaceSecPerKm: number | null;
+    distanceM: number;
+    durationSec: number;      // Moving time
+    completed: boolean;       // False if skipped or the run ended during the step
+    motion?: MotionBreakdown; // What the accelerometer saw during the step
+};
+
+export type IntervalProgress = {
+    distanceKm: number;
+    durationSec: number;      // Moving time of the whole workout
+    motion?: MotionState;
+};
+
+export type IntervalStatus = {
+    step: IntervalStep | null;        // Null once every step is done
+    index: number;
+    stepCount: number;
+    remaining: number;                // Meters or seconds left in the step
+    fraction: number;                 // 0–1 through the step
+    stepPaceSecPerKm: number | null;  // Average pace so far in the step
+    next: IntervalStep | null;
+    motionMismatch: boolean;          // Run/walk step and the runner hasn't switched yet
+};
+
+export const STEP_LABELS: Record<StepKind, string> = {
+    warmup: 'Khởi động',
+    work: 'Chạy nhanh',
+    recovery: 'Hồi phục',
+    cooldown: 'Thả lỏng',
+    run: 'Chạy',
+    walk: 'Đi bộ',
+};
+
+export const EXPECTED_MOTION: Partial<Record<StepKind, MotionState>> = {
+    run: 'running',
+    walk: 'walking',
+};
+
+export const DEFAULT_RUN_WALK: RunWalkPlan = {
+    runSec: 60,
+    walkSec: 90,
+    repeats: 8,
+};
+
+export const DEFAULT_PLAN: IntervalPlan = {
+    warmup: { type: 'time', seconds: 600 },
+    repeats: 6,
+    work: { type: 'distance', meters: 400 },
+    workPaceSecPerKm: null,
+    recovery: { type: 'time', seconds: 90 },
+    cooldown: { type: 'time', seconds: 300 },
+};
+
+type SpokenWords = Record<StepKind, string> & {
+    meters: string;
+    pace: string;
+    done: string;
+    remindRun: string;
+    remindWalk: string;
+};
+
+const SPOKEN_STEPS: Record<VoiceLanguage, SpokenWords> = {
+    vi: {
+        warmup: 'Khởi động',
+        work: 'Chạy nhanh',
+        recovery: 'Hồi phục',
+        cooldown: 'Thả lỏng',
+        run: 'Chạy',
+        walk: 'Đi bộ',
+        meters: 'mét',
+        pace: 'pace',
+        done: 'Hoàn thành bài tập',
+        remindRun: 'Đến lúc chạy rồi, chạy nhẹ nhàng nhé',
+        remindWalk: 'Đi bộ thôi, thả lỏng và thở đều',
+    },
+    en: {
+        warmup: 'Warm up',
+        work: 'Run hard',
+        recovery: 'Recover',
+        cooldown: 'Cool down',
+        run: 'Run',
+        walk: 'Walk',
+        meters: 'meters',
+        pace: 'at a pace of',
+        done: 'Workout complete',
+        remindRun: 'Time to run, nice and easy',
+        remindWalk: 'Time to walk, relax and breathe',
+    },
+};
+
+let steps: IntervalStep[] = [];
+let index = 0;
+let stepStart: IntervalProgress = { distanceKm: 0, durationSec: 0 };
+let results: StepResult[] = [];
+let language: VoiceLanguage = 'vi';
+let voiceEnabled = true;
+let lastCountdown: number | null = null;
+// Motion tracking for the current step
+let stepMotion: MotionBreakdown = emptyMotion();
+let lastUpdateSec: number | null = null;
+let mismatchSinceSec: number | null = null;
+let reminded = false;
+
+/**
+ * Speak a cue unless the runner muted voice; haptics go out either way
+ */
+function speak(text: string) {
+    if (voiceEnabled) VoiceCoachService.speak(text, language);
+}
+
+function emptyMotion(): MotionBreakdown {
+    return { stationary: 0, walking: 0, running: 0 };
+}
+
+function lengthOf(step: IntervalStep): number {
+    return step.length.type === 'distance' ? step.length.meters : step.length.seconds;
+}
+
+/**
+ * How far into the current step the workout is, in the step's own unit
+ */
+function doneInStep(step: IntervalStep, progress: IntervalProgress): number {
+    return step.length.type === 'distance'
+        ? (progress.distanceKm - stepStart.distanceKm) * 1000
+        : progress.durationSec - stepStart.durationSec;
+}
+
+function toResult(step: IntervalStep, progress: IntervalProgress, completed: boolean): StepResult {
+    return {
+        kind: step.kind,
+        repeat: step.repeat,
+        length: step.length,
+        targetPaceSecPerKm: step.targetPaceSecPerKm,
+        distanceM: Math.round((progress.distanceKm - stepStart.distanceKm) * 1000),
+        durationSec: Math.round(progress.durationSec - stepStart.durationSec),
+        completed,
+        ...(lastUpdateSec !== null && { motion: stepMotion }),
+    };
+}
+
+/**
+ * Close the current step and move on to the next one
+ */
+function advance(result: StepResult, progress: IntervalProgress) {
+    results.push(result);
+    index += 1;
+    stepStart = { distanceKm: progress.distanceKm, durationSec: progress.durationSec };
+    lastCountdown = null;
+    stepMotion = emptyMotion();
+    mismatchSinceSec = null;
+    reminded = false;
+    cueTransition(steps[index] ?? null);
+}
+
+/**
+ * Tally time in each motion state and remind the runner, once per step, when a run/walk
+ * step and what the accelerometer sees have disagreed for a while
+ */
+function trackMotion(step: IntervalStep, progress: IntervalProgress) {
+    if (!progress.motion) return;
+    if (lastUpdateSec !== null && progress.durationSec > lastUpdateSec) {
+        stepMotion[progress.motion] += progress.durationSec - lastUpdateSec;
+    }
+    lastUpdateSec = progress.durationSec;
+
+    const expected = EXPECTED_MOTION[step.kind];
+    const inStep = progress.durationSec - stepStart.durationSec;
+    if (!expected || progress.motion === expected || inStep < SWITCH_GRACE_SEC) {
+        mismatchSinceSec = null;
+        return;
+    }
+    mismatchSinceSec = mismatchSinceSec ?? progress.durationSec;
+    if (reminded || progress.durationSec - mismatchSinceSec < MISMATCH_SEC) return;
+
+    reminded = true;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    const words = SPOKEN_STEPS[language];
+    speak(step.kind === 'run' ? words.remindRun : words.remindWalk);
+}
+
+function describeStep(step: IntervalStep): string {
+    const words = SPOKEN_STEPS[language];
+    const length = step.length.type === 'distance'
+        ? `${step.length.meters} ${words.meters}`
+        : VoiceCoachService.spokenDuration(step.length.seconds, language);
+    const pace = step.targetPaceSecPerKm
+        ? `, ${words.pace} ${VoiceCoachService.spokenDuration(step.targetPaceSecPerKm, language)}`
+        : '';
+    return `${words[step.kind]} ${length}${pace}`;
+}
+
+/**
+ * Haptic and spoken cue for moving on to a step, or for finishing the last one
+ */
+function cueTransition(next: IntervalStep | null) {
+    if (!next) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        speak(SPOKEN_STEPS[language].done);
+        return;
+    }
+    if (next.kind === 'work' || next.kind === 'run') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    } else {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    }
+    speak(describeStep(next));
+}
+
+export const IntervalService = {
+    /**
+     * Flatten a plan into the steps to run: warm-up, the repeats with recovery between
+     * them (not after the last), then cool-down
+     */
+    expandPlan(plan: IntervalPlan): IntervalStep[] {
+        const expanded: IntervalStep[] = [];
+        if (plan.warmup) expanded.push({ kind: 'warmup', length: plan.warmup, targetPaceSecPerKm: null, repeat: null });
+        for (let r = 1; r <= plan.repeats; r++) {
+            expanded.push({ kind: 'work', length: plan.work, targetPaceSecPerKm: plan.workPaceSecPerKm, repeat: r });
+            if (plan.recovery && r < plan.repeats) {
+                expanded.push({ kind: 'recovery', length: plan.recovery, targetPaceSecPerKm: null, repeat: r });
+            }
+        }
+        if (plan.cooldown) expanded.push({ kind: 'cooldown', length: plan.cooldown, targetPaceSecPerKm: null, repeat: null });
+        return expanded;
+    },
+
+    expandRunWalk(plan: RunWalkPlan): IntervalStep[] {
+        const expanded: IntervalStep[] = [];
+        for (let r = 1; r <= plan.repeats; r++) {
+            expanded.push({ kind: 'run', length: { type: 'time', seconds: plan.runSec }, targetPaceSecPerKm: null, repeat: r });
+            expanded.push({ kind: 'walk', length: { type: 'time', seconds: plan.walkSec }, targetPaceSecPerKm: null, repeat: r });
+        }
+        return expanded;
+    },
+
+    /**
+     * Start running a list of steps. Results already recorded (a resumed workout) are
+     * kept, and the current step starts where they end.
+     */
+    start(plannedSteps: IntervalStep[], voiceLanguage: VoiceLanguage, voice: boolean, previous: StepResult[] = []): void {
+        steps = plannedSteps;
+        language = voiceLanguage;
+        voiceEnabled = voice;
+        results = [...previous];
+        index = previous.length;
+        stepStart = {
+            distanceKm: previous.reduce((sum, r) => sum + r.distanceM, 0) / 1000,
+            durationSec: previous.reduce((sum, r) => sum + r.durationSec, 0),
+        };
+        lastCountdown = null;
+        stepMotion = emptyMotion();
+        lastUpdateSec = null;
+        mismatchSinceSec = null;
+        reminded = false;
+        if (index === 0 && steps.length > 0) cueTransition(steps[0]);
+    },
+
+    isActive(): boolean {
+        return steps.length > 0;
+    },
+
+    /**
+     * Follow the workout's mute toggle
+     */
+    setVoiceEnabled(enabled: boolean): void {
+        voiceEnabled = enabled;
+    },
+
+    /**
+     * Advance through the steps with the workout's live progress. Returns the step just
+     * completed, if any, so the caller can journal it.
+     */
+    update(progress: IntervalProgress): StepResult | null {
+        const step = steps[index];
+        if (!step) return null;
+        trackMotion(step, progress);
+
+        const left = lengthOf(step) - doneInStep(step, progress);
+        if (left > 0) {
+            if (step.length.type === 'time' && left <= COUNTDOWN_SEC && Math.ceil(left) !== lastCountdown) {
+                lastCountdown = Math.ceil(left);
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            }
+            return null;
+        }
+
+        const result = toResult(step, progress, true);
+        advance(result, progress);
+        return result;
+    },
+
+    /**
+     * End the current step early and move on
+     */
+    skip(progress: IntervalProgress): StepResult | null {
+        const step = steps[index];
+        if (!step) return null;
+        const result = toResult(step, progress, false);
+        advance(result, progress);
+        return result;
+    },
+
+    getStatus(progress: IntervalProgress): IntervalStatus {
+        const step = steps[index] ?? null;
+        const done = step ? doneInStep(step, progress) : 0;
+        const stepKm = progress.distanceKm - stepStart.distanceKm;
+        const stepSec = progress.durationSec - stepStart.durationSec;
+        return {
+            step,
+            index,
+            stepCount: steps.length,
+            remaining: step ? Math.max(0, lengthOf(step) - done) : 0,
+            fraction: step ? Math.min(1, Math.max(0, done / lengthOf(step))) : 1,
+            stepPaceSecPerKm: stepKm >= 0.05 ? stepSec / stepKm : null,
+            next: steps[index + 1] ?? null,
+            motionMismatch: mismatchSinceSec !== null,
+        };
+    },
+
+    /**
+     * Stop and return every step's result, including the one in progress if it was started
+     */
+    finish(progress: IntervalProgress): StepResult[] {
+        const step = steps[index];
+        if (step && progress.durationSec > stepStart.durationSec) results.push(toResult(step, progress, false));
+        const finished = results;
+        this.stop();
+        return finished;
+    },
+
+    stop(): void {
+        steps = [];
+        results = [];
+        index = 0;
+    },
+
+    async getLastPlan(): Promise<IntervalPlan> {
+        try {
+            const raw = await AsyncStorage.getItem(LAST_PLAN_KEY);
+            return raw ? JSON.parse(raw) : DEFAULT_PLAN;
+        } catch (error) {
+            console.error('Error reading interval plan:', error);
+            return DEFAULT_PLAN;
+        }
+    },
+
+    async saveLastPlan(plan: IntervalPlan): Promise<void> {
+        await AsyncStorage.setItem(LAST_PLAN_KEY, JSON.stringify(plan));
+    },
+
+    async getLastRunWalk(): Promise<RunWalkPlan> {
+        try {
+            const raw = await AsyncStorage.getItem(LAST_RUN_WALK_KEY);
+            return raw ? JSON.parse(raw) : DEFAULT_RUN_WALK;
+        } catch (error) {
+            console.error('Error reading run/walk plan:', error);
+            return DEFAULT_RUN_WALK;
+        }
+    },
+
+    async saveLastRunWalk(plan: RunWalkPlan): Promise<void> {
+        await AsyncStorage.setItem(LAST_RUN_WALK_KEY, JSON.stringify(plan));
+    },
+};
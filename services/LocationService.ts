@@ -1,5 +1,8 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Location from 'expo-location';
 import * as TaskManager from 'expo-task-manager';
+import { AppState, NativeEventSubscription } from 'react-native';
+import { DiagnosticsService } from './DiagnosticsService';
 
 const BACKGROUND_LOCATION_TASK = 'LELERUN_BACKGROUND_LOCATION';
 
@@ -9,37 +12,299 @@ export type LocationPoint = {
     timestamp: number;
     speed: number | null;
     altitude: number | null;
+    accuracy: number | null; // Horizontal accuracy radius in meters
+    mocked?: boolean; // Android reports fixes from mock location apps
 };
 
 // Global variable to store location callback
 let locationCallback: ((location: LocationPoint) => void) | null = null;
+let appStateSubscription: NativeEventSubscription | null = null;
+let watchSubscription: Location.LocationSubscription | null = null;
+
+// Foreground and background updates overlap while the app is open — fixes closer together
+// than MERGE_WINDOW_MS are the same fix reported twice. The newest fix is held back for
+// MERGE_HOLD_MS so a better-accuracy twin from the other source can replace it.
+const MERGE_WINDOW_MS = 1000;
+const MERGE_HOLD_MS = 1500;
+// Delivered fixes are remembered this long, so a background batch that turns up late can
+// be checked against them for twins
+const EMITTED_TAIL_MS = 10 * 60 * 1000;
+let pendingPoint: LocationPoint | null = null;
+let pendingTimer: ReturnType<typeof setTimeout> | null = null;
+let lastEmittedTimestamp = -Infinity;
+let emittedTail: LocationPoint[] = []; // Timestamp order
+
+// GPS noise filtering — see LocationService.createTrackFilter
+const MAX_ACCURACY_M = 30;       // Fixes less accurate than this are dropped
+const MAX_SPEED_MS = 12;         // ~43 km/h — faster implied movement is a GPS jump
+const MAX_CONSECUTIVE_REJECTS = 3; // After this many "jumps" in a row, trust the new position
+const MIN_STEP_M = 2;            // Smaller moves are jitter (e.g. standing at a traffic light)
+const KALMAN_PROCESS_NOISE = 3;  // Expected movement uncertainty, m/s
+const DEFAULT_ACCURACY_M = 10;   // Used when a fix does not report accuracy
+const MOVING_SPEED_MS = 0.5;     // Same threshold as MotionService.isMoving
+
+// Elevation — see LocationService.getElevationProfile
+const ELEVATION_SMOOTHING_M = 50;  // Altitudes are averaged over this distance either side of a point
+const ELEVATION_HYSTERESIS_M = 3;  // Climbs or descents smaller than this are altitude noise
+const PACE_SMOOTHING_M = 100;      // Pace is measured over this distance either side of a point
+
+// Route previews — see LocationService.simplifyRoute
+const SIMPLIFY_TOLERANCES_M = [10, 5, 2.5, 1]; // Tried coarsest first
+const SIMPLIFY_MIN_DISTANCE_RATIO = 0.99;       // Simplified route must keep 99% of the distance
+const POLYLINE_PRECISION = 1e5;                 // Encoded polyline precision (~1 m)
+
+type Coordinate = { latitude: number; longitude: number };
+
+/**
+ * Douglas-Peucker on a local flat projection (meters) — fine at running-route scale
+ */
+function douglasPeucker(coords: Coordinate[], toleranceM: number): Coordinate[] {
+    if (coords.length < 3) return coords;
+    const lat0 = (coords[0].latitude * Math.PI) / 180;
+    const xy = coords.map(c => [
+        c.longitude * 111320 * Math.cos(lat0),
+        c.latitude * 110540,
+    ]);
+    const keep = new Array(coords.length).fill(false);
+    keep[0] = keep[coords.length - 1] = true;
+
+    // Iterative to avoid deep recursion on long routes
+    const stack: [number, number][] = [[0, coords.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        const [x1, y1] = xy[first];
+        const [x2, y2] = xy[last];
+        const dx = x2 - x1;
+        const dy = y2 - y1;
+        const lengthSq = dx * dx + dy * dy;
+        let maxDist = 0;
+        let index = -1;
+        for (let i = first + 1; i < last; i++) {
+            const [x, y] = xy[i];
+            const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSq)) : 0;
+            const dist = Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+            if (dist > maxDist) {
+                maxDist = dist;
+                index = i;
+            }
+        }
+        if (index !== -1 && maxDist > toleranceM) {
+            keep[index] = true;
+            stack.push([first, index], [index, last]);
+        }
+    }
+    return coords.filter((_, i) => keep[i]);
+}
+
+export type PauseInterval = {
+    start: number;
+    end: number | null; // null while still paused
+};
+
+export type ElevationSample = {
+    distanceM: number; // Distance along the track
+    altitude: number;  // Smoothed altitude, meters
+};
+
+export type PaceSample = {
+    index: number;     // Index of the route point this sample belongs to
+    distanceM: number; // Moving distance along the track
+    speedMs: number;   // Smoothed speed, 0 when it can't be measured
+};
+
+export type TrackFilter = {
+    /** Feed the next raw fix; returns the smoothed point, or null if the fix was rejected */
+    push(point: LocationPoint): LocationPoint | null;
+};
+
+// Background fixes that arrive while no workout is listening are kept here until one starts
+const BACKGROUND_BUFFER_KEY = 'background_location_buffer';
+let bufferQueue: Promise<void> = Promise.resolve();
+
+function toLocationPoint(loc: Location.LocationObject): LocationPoint {
+    return {
+        latitude: loc.coords.latitude,
+        longitude: loc.coords.longitude,
+        timestamp: loc.timestamp,
+        speed: loc.coords.speed,
+        altitude: loc.coords.altitude,
+        accuracy: loc.coords.accuracy,
+        mocked: loc.mocked,
+    };
+}
+
+function emitPoint(point: LocationPoint) {
+    lastEmittedTimestamp = Math.max(lastEmittedTimestamp, point.timestamp);
+    let i = emittedTail.length;
+    while (i > 0 && emittedTail[i - 1].timestamp > point.timestamp) i--;
+    emittedTail.splice(i, 0, point);
+    while (emittedTail.length > 0 && emittedTail[0].timestamp < lastEmittedTimestamp - EMITTED_TAIL_MS) {
+        emittedTail.shift();
+    }
+    locationCallback?.(point);
+}
+
+/**
+ * Whether a fix already went out, from either source
+ */
+function isEmittedTwin(point: LocationPoint): boolean {
+    for (let i = emittedTail.length - 1; i >= 0; i--) {
+        const emitted = emittedTail[i];
+        if (emitted.timestamp <= point.timestamp - MERGE_WINDOW_MS) return false;
+        if (Math.abs(emitted.timestamp - point.timestamp) < MERGE_WINDOW_MS) return true;
+    }
+    return false;
+}
+
+function flushPendingPoint() {
+    if (pendingTimer) {
+        clearTimeout(pendingTimer);
+        pendingTimer = null;
+    }
+    if (pendingPoint) {
+        const point = pendingPoint;
+        pendingPoint = null;
+        emitPoint(point);
+    }
+}
+
+function isMoreAccurate(a: LocationPoint, b: LocationPoint): boolean {
+    if (a.accuracy === null || a.accuracy === undefined) return false;
+    if (b.accuracy === null || b.accuracy === undefined) return true;
+    return a.accuracy < b.accuracy;
+}
+
+function resetMerge() {
+    if (pendingTimer) clearTimeout(pendingTimer);
+    pendingTimer = null;
+    pendingPoint = null;
+    lastEmittedTimestamp = -Infinity;
+    emittedTail = [];
+}
+
+/**
+ * Single entry point for fixes from every source: drops fixes reported twice and prefers
+ * the more accurate of two overlapping ones. Fixes go out in timestamp order, except a
+ * late background batch, whose fixes are delivered as they come for the route to slot in.
+ */
+function mergeLocation(point: LocationPoint) {
+    DiagnosticsService.recordFix({
+        timestamp: point.timestamp,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        altitude: point.altitude,
+        accuracy: point.accuracy,
+        speed: point.speed,
+        mocked: point.mocked ?? null,
+    });
+
+    if (isEmittedTwin(point)) return;
+    if (point.timestamp < lastEmittedTimestamp) {
+        // Late (e.g. Android batched it with the screen off while foreground fixes went out)
+        emitPoint(point);
+        return;
+    }
+
+    if (pendingPoint) {
+        if (Math.abs(point.timestamp - pendingPoint.timestamp) < MERGE_WINDOW_MS) {
+            if (isMoreAccurate(point, pendingPoint)) pendingPoint = point;
+            return;
+        }
+        if (point.timestamp < pendingPoint.timestamp) {
+            // Older than the held fix but newer than anything delivered — it goes first
+            emitPoint(point);
+            return;
+        }
+        flushPendingPoint();
+    }
+
+    pendingPoint = point;
+    pendingTimer = setTimeout(flushPendingPoint, MERGE_HOLD_MS);
+}
+
+/**
+ * Serialize buffer read-modify-write cycles so concurrent batches don't overwrite each other
+ */
+function withBuffer<T>(task: () => Promise<T>): Promise<T> {
+    const result = bufferQueue.then(task);
+    bufferQueue = result.then(() => undefined, () => undefined);
+    return result;
+}
+
+async function readBuffer(): Promise<LocationPoint[]> {
+    const raw = await AsyncStorage.getItem(BACKGROUND_BUFFER_KEY);
+    return raw ? JSON.parse(raw) : [];
+}
+
+function bufferPoints(points: LocationPoint[]): Promise<void> {
+    return withBuffer(async () => {
+        const buffered = await readBuffer();
+        buffered.push(...points);
+        await AsyncStorage.setItem(BACKGROUND_BUFFER_KEY, JSON.stringify(buffered));
+    });
+}
+
+function takeBufferedPoints(): Promise<LocationPoint[]> {
+    return withBuffer(async () => {
+        const buffered = await readBuffer();
+        if (buffered.length > 0) await AsyncStorage.removeItem(BACKGROUND_BUFFER_KEY);
+        return buffered.sort((a, b) => a.timestamp - b.timestamp);
+    });
+}
 
 // Register background task
-TaskManager.defineTask(BACKGROUND_LOCATION_TASK, ({ data, error }: any) => {
+TaskManager.defineTask<{ locations: Location.LocationObject[] }>(BACKGROUND_LOCATION_TASK, async ({ data, error }) => {
     if (error) {
         console.error('Background location error:', error);
         return;
     }
-    if (data) {
-        const { locations } = data;
-        if (locations && locations.length > 0 && locationCallback) {
-            const loc = locations[locations.length - 1];
-            locationCallback({
-                latitude: loc.coords.latitude,
-                longitude: loc.coords.longitude,
-                timestamp: loc.timestamp,
-                speed: loc.coords.speed,
-                altitude: loc.coords.altitude,
-            });
-        }
+    const locations = data?.locations;
+    if (!locations || locations.length === 0) return;
+
+    // Android batches fixes while the screen is off — keep every one, oldest first
+    const points = locations.map(toLocationPoint).sort((a, b) => a.timestamp - b.timestamp);
+
+    // While a workout is tracking, deliver straight away even with the screen off so the run
+    // (and its voice cues) keep up; buffer only when nothing is listening yet, e.g. the OS
+    // relaunched the app for this task
+    if (locationCallback) {
+        points.forEach(mergeLocation);
+    } else {
+        await bufferPoints(points);
     }
 });
 
-export const LocationService = {
-    /**
-     * Request location permissions (foreground + background)
-     */
-    async requestPermissions(): Promise<boolean> {
+/**
+ * Where fixes come from. The device source wraps expo-location; other sources (see
+ * ReplayLocationSource) let the tracking pipeline run without going outside.
+ */
+export interface LocationSource {
+    /** Shown in the developer settings */
+    name: string;
+    requestPermissions(): Promise<boolean>;
+    /** Start delivering fixes; fixes recorded before `since` may be dropped */
+    start(onLocation: (location: LocationPoint) => void, since: number): Promise<void>;
+    stop(): Promise<void>;
+    /** The clock fixes are stamped against, when it isn't wall time (a sped-up replay) */
+    now?(): number;
+    /** Fixes don't come from a real run, so the workout isn't saved */
+    simulated?: boolean;
+}
+
+/**
+ * Deliver background fixes buffered while the app was suspended, in timestamp order
+ */
+async function deliverBufferedPoints(): Promise<void> {
+    if (!locationCallback) return;
+    const buffered = await takeBufferedPoints();
+    buffered.forEach(mergeLocation);
+}
+
+/** GPS through expo-location: foreground watch plus the background task */
+const deviceLocationSource: LocationSource = {
+    name: 'GPS',
+
+    async requestPermissions() {
         const { status: foreground } = await Location.requestForegroundPermissionsAsync();
         if (foreground !== 'granted') return false;
 
@@ -50,17 +315,19 @@ export const LocationService = {
         return true;
     },
 
-    /**
-     * Start tracking location (foreground + background)
-     */
-    async startTracking(onLocation: (location: LocationPoint) => void): Promise<boolean> {
-        const hasPermission = await this.requestPermissions();
-        if (!hasPermission) return false;
+    async start(onLocation, since) {
+        const buffered = await takeBufferedPoints();
+        buffered.filter(p => p.timestamp >= since).forEach(onLocation);
 
-        locationCallback = onLocation;
+        // Deliver fixes buffered while suspended as soon as the app is back in the foreground
+        appStateSubscription?.remove();
+        appStateSubscription = AppState.addEventListener('change', (nextState) => {
+            if (nextState === 'active') deliverBufferedPoints();
+        });
 
         // Start foreground location updates (more frequent)
-        await Location.watchPositionAsync(
+        watchSubscription?.remove();
+        watchSubscription = await Location.watchPositionAsync(
             {
                 accuracy: Location.Accuracy.BestForNavigation,
                 distanceInterval: 5, // Update every 5 meters
@@ -68,13 +335,7 @@ export const LocationService = {
             },
             (loc) => {
                 if (locationCallback) {
-                    locationCallback({
-                        latitude: loc.coords.latitude,
-                        longitude: loc.coords.longitude,
-                        timestamp: loc.timestamp,
-                        speed: loc.coords.speed,
-                        altitude: loc.coords.altitude,
-                    });
+                    onLocation(toLocationPoint(loc));
                 }
             }
         );
@@ -91,19 +352,96 @@ export const LocationService = {
                 notificationColor: '#58CC02',
             },
         });
+    },
+
+    async stop() {
+        watchSubscription?.remove();
+        watchSubscription = null;
+        appStateSubscription?.remove();
+        appStateSubscription = null;
+        await withBuffer(() => AsyncStorage.removeItem(BACKGROUND_BUFFER_KEY));
+        const isTracking = await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+        if (isTracking) {
+            await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
+        }
+    },
+};
+
+let activeSource: LocationSource = deviceLocationSource;
+let trackingSource: LocationSource | null = null;
+
+export const LocationService = {
+    /**
+     * Use a different location source for the next run (null restores device GPS).
+     * Meant for development builds — see the developer section in Profile.
+     */
+    setSource(source: LocationSource | null): void {
+        activeSource = source ?? deviceLocationSource;
+    },
+
+    /**
+     * The source the next run will track with
+     */
+    getSource(): LocationSource {
+        return activeSource;
+    },
+
+    /**
+     * Current time on the active source's clock. Anything compared with fix timestamps
+     * (run duration, pauses, stale fixes) should read this rather than Date.now().
+     */
+    now(): number {
+        return activeSource.now?.() ?? Date.now();
+    },
+
+    /**
+     * Whether the next run tracks with a source that doesn't record a real run
+     */
+    isSimulated(): boolean {
+        return activeSource.simulated === true;
+    },
+
+    /**
+     * Request location permissions (foreground + background)
+     */
+    async requestPermissions(): Promise<boolean> {
+        return activeSource.requestPermissions();
+    },
 
+    /**
+     * Start tracking location (foreground + background).
+     * Buffered background fixes recorded since `since` are delivered first; older ones are dropped.
+     * A fix can be older than ones already delivered (a late background batch) and belongs
+     * earlier in the route.
+     */
+    async startTracking(onLocation: (location: LocationPoint) => void, since: number = Date.now()): Promise<boolean> {
+        const hasPermission = await this.requestPermissions();
+        if (!hasPermission) return false;
+
+        resetMerge();
+        locationCallback = onLocation;
+        trackingSource = activeSource;
+        await trackingSource.start(mergeLocation, since);
         return true;
     },
 
+    /**
+     * Deliver background fixes buffered while the app was suspended, in timestamp order
+     */
+    async flushBackgroundBuffer(): Promise<void> {
+        await deliverBufferedPoints();
+    },
+
     /**
      * Stop tracking location
      */
     async stopTracking(): Promise<void> {
+        flushPendingPoint();
         locationCallback = null;
-        const isTracking = await Location.hasStartedLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
-        if (isTracking) {
-            await Location.stopLocationUpdatesAsync(BACKGROUND_LOCATION_TASK);
-        }
+        resetMerge();
+        // Stop whichever source was started, even if the selection changed mid-run
+        await (trackingSource ?? activeSource).stop();
+        trackingSource = null;
     },
 
     /**
@@ -127,9 +465,25 @@ export const LocationService = {
     /**
      * Calculate total distance from array of points (km)
      */
-    calculateTotalDistance(points: LocationPoint[]): number {
+    calculateTotalDistance(points: Coordinate[]): number {
+        let total = 0;
+        for (let i = 1; i < points.length; i++) {
+            total += this.calculateDistance(
+                points[i - 1].latitude, points[i - 1].longitude,
+                points[i].latitude, points[i].longitude
+            );
+        }
+        return total;
+    },
+
+    /**
+     * Total distance (km) excluding movement recorded while the workout was paused
+     */
+    calculateMovingDistance(points: LocationPoint[], pauses: PauseInterval[]): number {
+        const isPausedAt = (t: number) => pauses.some(p => t >= p.start && (p.end === null || t < p.end));
         let total = 0;
         for (let i = 1; i < points.length; i++) {
+            if (isPausedAt(points[i - 1].timestamp) || isPausedAt(points[i].timestamp)) continue;
             total += this.calculateDistance(
                 points[i - 1].latitude, points[i - 1].longitude,
                 points[i].latitude, points[i].longitude
@@ -139,26 +493,272 @@ export const LocationService = {
     },
 
     /**
-     * Convert route points to GeoJSON for storage
+     * Time spent moving (seconds): sums the intervals between consecutive points whose
+     * implied speed is above the stationary threshold, so stops and gaps are left out
+     */
+    calculateMovingTime(points: LocationPoint[]): number {
+        let total = 0;
+        for (let i = 1; i < points.length; i++) {
+            const dt = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+            if (dt <= 0) continue;
+            const meters = this.calculateDistance(
+                points[i - 1].latitude, points[i - 1].longitude,
+                points[i].latitude, points[i].longitude
+            ) * 1000;
+            if (meters / dt > MOVING_SPEED_MS) total += dt;
+        }
+        return Math.round(total);
+    },
+
+    /**
+     * Create a stateful filter for a live track: accuracy gating, a max-plausible-speed
+     * check and a Kalman smoother whose measurement noise is the fix accuracy
+     */
+    createTrackFilter(): TrackFilter {
+        let lastRaw: LocationPoint | null = null;
+        let lastOutput: LocationPoint | null = null;
+        let rejects = 0;
+        // Kalman state, position in degrees and variance in m²
+        let lat = 0;
+        let lon = 0;
+        let variance = -1;
+        let lastTimestamp = 0;
+
+        return {
+            push: (point) => {
+                const accuracy = point.accuracy ?? DEFAULT_ACCURACY_M;
+                if (accuracy > MAX_ACCURACY_M) return null;
+
+                if (lastRaw) {
+                    const dt = (point.timestamp - lastRaw.timestamp) / 1000;
+                    const meters = this.calculateDistance(
+                        lastRaw.latitude, lastRaw.longitude,
+                        point.latitude, point.longitude
+                    ) * 1000;
+                    if (dt <= 0 || meters / dt > MAX_SPEED_MS) {
+                        rejects += 1;
+                        if (rejects <= MAX_CONSECUTIVE_REJECTS) return null;
+                        variance = -1; // Re-anchor the smoother on the new position
+                    }
+                }
+                rejects = 0;
+                lastRaw = point;
+
+                if (variance < 0) {
+                    lat = point.latitude;
+                    lon = point.longitude;
+                    variance = accuracy * accuracy;
+                } else {
+                    const dt = (point.timestamp - lastTimestamp) / 1000;
+                    if (dt > 0) variance += dt * KALMAN_PROCESS_NOISE * KALMAN_PROCESS_NOISE;
+                    const gain = variance / (variance + accuracy * accuracy);
+                    lat += gain * (point.latitude - lat);
+                    lon += gain * (point.longitude - lon);
+                    variance = (1 - gain) * variance;
+                }
+                lastTimestamp = point.timestamp;
+
+                const smoothed: LocationPoint = { ...point, latitude: lat, longitude: lon };
+                if (lastOutput) {
+                    const step = this.calculateDistance(
+                        lastOutput.latitude, lastOutput.longitude,
+                        smoothed.latitude, smoothed.longitude
+                    ) * 1000;
+                    if (step < MIN_STEP_M) return null;
+                }
+                lastOutput = smoothed;
+                return smoothed;
+            },
+        };
+    },
+
+    /**
+     * Run a whole raw track through the noise filter
+     */
+    filterTrack(points: LocationPoint[]): LocationPoint[] {
+        const filter = this.createTrackFilter();
+        const filtered: LocationPoint[] = [];
+        for (const p of points) {
+            const out = filter.push(p);
+            if (out) filtered.push(out);
+        }
+        return filtered;
+    },
+
+    /**
+     * Distance of the filtered track (km) — use this for anything that counts towards targets
+     */
+    calculateFilteredDistance(points: LocationPoint[]): number {
+        return this.calculateTotalDistance(this.filterTrack(points));
+    },
+
+    /**
+     * Smoothed altitude against distance for every point that has one. GPS altitude is
+     * much noisier than position, so each value is averaged over ELEVATION_SMOOTHING_M
+     * of track either side. Routes without altitude data give [].
+     */
+    getElevationProfile(points: LocationPoint[]): ElevationSample[] {
+        const samples: ElevationSample[] = [];
+        let distanceM = 0;
+        points.forEach((p, i) => {
+            if (i > 0) {
+                distanceM += this.calculateDistance(
+                    points[i - 1].latitude, points[i - 1].longitude,
+                    p.latitude, p.longitude
+                ) * 1000;
+            }
+            if (p.altitude !== null) samples.push({ distanceM, altitude: p.altitude });
+        });
+
+        // Sliding window over [distance - W, distance + W]
+        let lo = 0;
+        let hi = 0;
+        let sum = 0;
+        return samples.map(s => {
+            while (hi < samples.length && samples[hi].distanceM <= s.distanceM + ELEVATION_SMOOTHING_M) {
+                sum += samples[hi++].altitude;
+            }
+            while (samples[lo].distanceM < s.distanceM - ELEVATION_SMOOTHING_M) {
+                sum -= samples[lo++].altitude;
+            }
+            return { distanceM: s.distanceM, altitude: sum / (hi - lo) };
+        });
+    },
+
+    /**
+     * Total climb and descent (meters) over the smoothed profile. A change only counts
+     * once it exceeds ELEVATION_HYSTERESIS_M from the last turning point, so altitude
+     * wobble on flat ground adds nothing.
+     */
+    calculateElevation(points: LocationPoint[]): { gainM: number; lossM: number } {
+        const profile = this.getElevationProfile(points);
+        let gain = 0;
+        let loss = 0;
+        let reference = profile[0]?.altitude ?? 0;
+        for (const { altitude } of profile) {
+            if (altitude - reference >= ELEVATION_HYSTERESIS_M) {
+                gain += altitude - reference;
+                reference = altitude;
+            } else if (reference - altitude >= ELEVATION_HYSTERESIS_M) {
+                loss += reference - altitude;
+                reference = altitude;
+            }
+        }
+        return { gainM: Math.round(gain), lossM: Math.round(loss) };
+    },
+
+    /**
+     * Smoothed speed against distance, measured from timestamps over PACE_SMOOTHING_M of
+     * track either side of each point. Points recorded while paused get no sample and
+     * paused stretches add neither distance nor time.
+     */
+    getPaceProfile(points: LocationPoint[], pauses: PauseInterval[] = []): PaceSample[] {
+        if (points.length < 2 || points.some(p => p.timestamp <= 0)) return [];
+        const isPausedAt = (t: number) => pauses.some(p => t >= p.start && (p.end === null || t < p.end));
+
+        // Cumulative moving distance and time at every unpaused point
+        const moving: { index: number; distanceM: number; timeSec: number }[] = [];
+        let distanceM = 0;
+        let timeSec = 0;
+        points.forEach((p, i) => {
+            if (isPausedAt(p.timestamp)) return;
+            if (i > 0 && !isPausedAt(points[i - 1].timestamp)) {
+                distanceM += this.calculateDistance(
+                    points[i - 1].latitude, points[i - 1].longitude,
+                    p.latitude, p.longitude
+                ) * 1000;
+                timeSec += Math.max(0, (p.timestamp - points[i - 1].timestamp) / 1000);
+            }
+            moving.push({ index: i, distanceM, timeSec });
+        });
+
+        let lo = 0;
+        let hi = 0;
+        return moving.map(m => {
+            while (hi < moving.length - 1 && moving[hi + 1].distanceM <= m.distanceM + PACE_SMOOTHING_M) hi++;
+            while (moving[lo].distanceM < m.distanceM - PACE_SMOOTHING_M) lo++;
+            const dt = moving[hi].timeSec - moving[lo].timeSec;
+            return {
+                index: m.index,
+                distanceM: m.distanceM,
+                speedMs: dt > 0 ? (moving[hi].distanceM - moving[lo].distanceM) / dt : 0,
+            };
+        });
+    },
+
+    /**
+     * Position of every whole-interval mark along the track (each km by default),
+     * interpolated inside the segment that crosses it. Paused stretches don't count,
+     * so the marks line up with the splits.
      */
-    toGeoJSON(points: LocationPoint[]): object {
+    getDistanceMarkers(
+        points: LocationPoint[],
+        pauses: PauseInterval[] = [],
+        intervalM = 1000
+    ): { distanceM: number; latitude: number; longitude: number }[] {
+        const isPausedAt = (t: number) => pauses.some(p => t >= p.start && (p.end === null || t < p.end));
+        const markers: { distanceM: number; latitude: number; longitude: number }[] = [];
+        let totalM = 0;
+        let nextM = intervalM;
+        for (let i = 1; i < points.length; i++) {
+            const a = points[i - 1];
+            const b = points[i];
+            if (isPausedAt(a.timestamp) || isPausedAt(b.timestamp)) continue;
+            const d = this.calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude) * 1000;
+            while (d > 0 && totalM + d >= nextM) {
+                const f = (nextM - totalM) / d;
+                markers.push({
+                    distanceM: nextM,
+                    latitude: a.latitude + (b.latitude - a.latitude) * f,
+                    longitude: a.longitude + (b.longitude - a.longitude) * f,
+                });
+                nextM += intervalM;
+            }
+            totalM += d;
+        }
+        return markers;
+    },
+
+    /**
+     * Spread a pace profile back onto the route: speed at every point, null where the
+     * profile has no sample (paused)
+     */
+    speedsAtPoints(profile: PaceSample[], pointCount: number): (number | null)[] {
+        const speeds: (number | null)[] = new Array(pointCount).fill(null);
+        for (const sample of profile) speeds[sample.index] = sample.speedMs;
+        return speeds;
+    },
+
+    /**
+     * Convert route points to GeoJSON for storage. Points without an altitude get a 2D
+     * position rather than a made-up 0.
+     * Pass the pause intervals so paused stretches can be left out later (e.g. splits).
+     * The unfiltered fixes aren't stored with the route; DiagnosticsService records them.
+     */
+    toGeoJSON(points: LocationPoint[], pauses?: PauseInterval[]): object {
         return {
             type: 'Feature',
             geometry: {
                 type: 'LineString',
-                coordinates: points.map(p => [p.longitude, p.latitude, p.altitude || 0]),
+                coordinates: points.map(p => (p.altitude === null
+                    ? [p.longitude, p.latitude]
+                    : [p.longitude, p.latitude, p.altitude])),
             },
             properties: {
                 timestamps: points.map(p => p.timestamp),
                 speeds: points.map(p => p.speed),
+                accuracies: points.map(p => p.accuracy ?? null),
+                ...(pauses && pauses.length > 0 && { pauses }),
             },
         };
     },
 
     /**
-     * Parse GeoJSON back to coordinate array for map display
+     * Parse a stored route back to a coordinate array for map display.
+     * Accepts both the full GeoJSON track and the encoded-polyline preview.
      */
     fromGeoJSON(geojson: any): { latitude: number; longitude: number }[] {
+        if (typeof geojson === 'string') return this.decodePolyline(geojson);
         if (!geojson?.geometry?.coordinates) return [];
         return geojson.geometry.coordinates.map((c: number[]) => ({
             latitude: c[1],
@@ -167,13 +767,105 @@ export const LocationService = {
     },
 
     /**
-     * Estimate calories burned (simple formula)
+     * Simplify a route for previews with Douglas-Peucker, using the coarsest tolerance
+     * that still keeps SIMPLIFY_MIN_DISTANCE_RATIO of the original distance
+     */
+    simplifyRoute(coords: Coordinate[]): Coordinate[] {
+        if (coords.length < 3) return coords;
+        const original = this.calculateTotalDistance(coords);
+        for (const tolerance of SIMPLIFY_TOLERANCES_M) {
+            const simplified = douglasPeucker(coords, tolerance);
+            if (this.calculateTotalDistance(simplified) >= original * SIMPLIFY_MIN_DISTANCE_RATIO) {
+                return simplified;
+            }
+        }
+        return coords;
+    },
+
+    /**
+     * Encode coordinates in the Google encoded-polyline format
+     */
+    encodePolyline(coords: Coordinate[]): string {
+        let result = '';
+        let prevLat = 0;
+        let prevLng = 0;
+        const encodeValue = (value: number) => {
+            let v = value < 0 ? ~(value << 1) : value << 1;
+            while (v >= 0x20) {
+                result += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+                v >>= 5;
+            }
+            result += String.fromCharCode(v + 63);
+        };
+        for (const c of coords) {
+            const lat = Math.round(c.latitude * POLYLINE_PRECISION);
+            const lng = Math.round(c.longitude * POLYLINE_PRECISION);
+            encodeValue(lat - prevLat);
+            encodeValue(lng - prevLng);
+            prevLat = lat;
+            prevLng = lng;
+        }
+        return result;
+    },
+
+    /**
+     * Decode a Google encoded polyline
+     */
+    decodePolyline(encoded: string): Coordinate[] {
+        const coords: Coordinate[] = [];
+        let index = 0;
+        let lat = 0;
+        let lng = 0;
+        const decodeValue = () => {
+            let shift = 0;
+            let value = 0;
+            let byte: number;
+            do {
+                byte = encoded.charCodeAt(index++) - 63;
+                value |= (byte & 0x1f) << shift;
+                shift += 5;
+            } while (byte >= 0x20 && index < encoded.length);
+            return value & 1 ? ~(value >> 1) : value >> 1;
+        };
+        while (index < encoded.length) {
+            lat += decodeValue();
+            lng += decodeValue();
+            coords.push({ latitude: lat / POLYLINE_PRECISION, longitude: lng / POLYLINE_PRECISION });
+        }
+        return coords;
+    },
+
+    /**
+     * Lightweight encoded preview of a stored route, for list screens
+     */
+    toRoutePreview(geojson: any): string | null {
+        const coords = this.fromGeoJSON(geojson);
+        return coords.length > 1 ? this.encodePolyline(this.simplifyRoute(coords)) : null;
+    },
+
+    /**
+     * Parse stored GeoJSON back to full route points (timestamps, speeds, elevation)
+     */
+    toLocationPoints(geojson: any): LocationPoint[] {
+        const coords: number[][] = geojson?.geometry?.coordinates;
+        if (!coords) return [];
+        const props = geojson.properties || {};
+        // Older routes stored a missing altitude as 0; all zeros means there was none
+        const hasAltitude = coords.some(c => c.length > 2 && c[2] !== 0);
+        return coords.map((c, i) => ({
+            latitude: c[1],
+            longitude: c[0],
+            altitude: hasAltitude && c.length > 2 ? c[2] : null,
+            timestamp: props.timestamps?.[i] ?? 0,
+            speed: props.speeds?.[i] ?? null,
+            accuracy: props.accuracies?.[i] ?? null,
+        }));
+    },
+
+    /**
+     * Pause intervals stored with a route, if any
      */
-    estimateCalories(distanceKm: number, durationMin: number): number {
-        // MET-based estimation: running ~10 MET, walking ~3.5 MET
-        const avgSpeedKmH = (distanceKm / durationMin) * 60;
-        const met = avgSpeedKmH > 8 ? 10 : avgSpeedKmH > 5 ? 6.5 : 3.5;
-        const weightKg = 70; // Default weight
-        return Math.round((met * weightKg * (durationMin / 60)));
+    getPauses(geojson: any): PauseInterval[] {
+        return Array.isArray(geojson?.properties?.pauses) ? geojson.properties.pauses : [];
     },
 };
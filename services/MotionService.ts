@@ -1,11 +1,49 @@
 import { Accelerometer } from 'expo-sensors';
+import { DiagnosticsService } from './DiagnosticsService';
 
 export type MotionState = 'stationary' | 'walking' | 'running';
 
+// Motion state only needs 5 Hz; counting steps needs the accelerometer at 25 Hz, several
+// samples per step even at a sprint cadence
+const MOTION_INTERVAL_MS = 200;
+const STEP_INTERVAL_MS = 40;
+const HISTORY_WINDOW_MS = 4000;
+// Step detection runs on the magnitude with gravity removed (slow EMA, ~1 s) and jitter
+// smoothed (fast EMA, ~3.5 Hz cut-off at 25 Hz, above any running cadence)
+const GRAVITY_ALPHA = 0.04;
+const SMOOTHING_ALPHA = 0.58;
+// A peak counts as a step when it clears the larger of MIN_PEAK_G and a fraction of recent
+// step peaks (low, as 25 Hz samples often land beside a short foot-strike spike), and the
+// signal has dipped below gravity since the last step
+const MIN_PEAK_G = 0.08;
+const PEAK_RATIO = 0.35;
+const PEAK_AVERAGE_ALPHA = 0.2;
+const MIN_STEP_GAP_MS = 250;       // 240 spm, faster than any runner
+const CADENCE_WINDOW_MS = 10000;
+
+export type StepUpdate = {
+    steps: number;        // Steps since this subscriber subscribed
+    cadenceSpm: number;
+};
+
+type StepListener = (update: StepUpdate) => void;
+
 let motionCallback: ((state: MotionState) => void) | null = null;
 let subscription: any = null;
 let accelerationHistory: number[] = [];
-const HISTORY_SIZE = 20;
+let historySize = HISTORY_WINDOW_MS / MOTION_INTERVAL_MS;
+let samplesPerState = 1;
+let sampleCount = 0;
+
+// Step listeners mapped to the step count when they subscribed
+const stepListeners = new Map<StepListener, number>();
+let stepCount = 0;
+let stepTimes: number[] = [];
+let gravity: number | null = null;
+let smoothed = 0;
+let previous = [0, 0];             // Two samples back, one sample back
+let peakAverage = 0;
+let stepArmed = true;
 
 /**
  * Calculate acceleration magnitude from x, y, z
@@ -23,6 +61,109 @@ function variance(values: number[]): number {
     return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
 }
 
+/**
+ * Steps per minute over the last CADENCE_WINDOW_MS
+ */
+function cadence(now: number): number {
+    stepTimes = stepTimes.filter(t => now - t <= CADENCE_WINDOW_MS);
+    if (stepTimes.length < 2) return 0;
+    const spanMs = stepTimes[stepTimes.length - 1] - stepTimes[0];
+    return spanMs > 0 ? Math.round(((stepTimes.length - 1) / spanMs) * 60000) : 0;
+}
+
+function resetStepDetector() {
+    stepCount = 0;
+    stepTimes = [];
+    gravity = null;
+    smoothed = 0;
+    previous = [0, 0];
+    peakAverage = 0;
+    stepArmed = true;
+}
+
+/**
+ * Peak detection on the filtered magnitude; a peak is confirmed one sample late,
+ * once the signal starts falling
+ */
+function detectStep(mag: number) {
+    gravity = gravity === null ? mag : gravity + GRAVITY_ALPHA * (mag - gravity);
+    smoothed += SMOOTHING_ALPHA * (mag - gravity - smoothed);
+
+    const [beforePeak, peak] = previous;
+    previous = [peak, smoothed];
+    if (smoothed < 0) stepArmed = true;
+
+    const isPeak = peak > beforePeak && peak >= smoothed;
+    if (!isPeak || !stepArmed || peak < Math.max(MIN_PEAK_G, PEAK_RATIO * peakAverage)) return;
+
+    const now = Date.now();
+    const last = stepTimes[stepTimes.length - 1];
+    if (last !== undefined && now - last < MIN_STEP_GAP_MS) return;
+
+    stepArmed = false;
+    peakAverage = peakAverage === 0 ? peak : peakAverage + PEAK_AVERAGE_ALPHA * (peak - peakAverage);
+    stepCount += 1;
+    stepTimes.push(now);
+
+    const cadenceSpm = cadence(now);
+    stepListeners.forEach((base, listener) => listener({ steps: stepCount - base, cadenceSpm }));
+}
+
+function handleSample(data: { x: number; y: number; z: number }) {
+    DiagnosticsService.recordMotion(data.x, data.y, data.z);
+    const mag = magnitude(data.x, data.y, data.z);
+    if (stepListeners.size > 0) detectStep(mag);
+
+    accelerationHistory.push(mag);
+    if (accelerationHistory.length > historySize) {
+        accelerationHistory.shift();
+    }
+
+    // Report motion state at 5 Hz whatever the sampling rate
+    sampleCount += 1;
+    if (!motionCallback || sampleCount % samplesPerState !== 0) return;
+
+    if (accelerationHistory.length >= historySize / 2) {
+        const v = variance(accelerationHistory);
+        let state: MotionState;
+
+        if (v < 0.003) {
+            state = 'stationary';
+        } else if (v < 0.02) {
+            state = 'walking';
+        } else {
+            state = 'running';
+        }
+
+        motionCallback(state);
+    }
+}
+
+/**
+ * Run the accelerometer while anyone is listening, at the rate the listeners need
+ */
+function updateSensor() {
+    const needed = motionCallback !== null || stepListeners.size > 0;
+    if (!needed) {
+        if (subscription) {
+            subscription.remove();
+            subscription = null;
+        }
+        accelerationHistory = [];
+        sampleCount = 0;
+        return;
+    }
+
+    const interval = stepListeners.size > 0 ? STEP_INTERVAL_MS : MOTION_INTERVAL_MS;
+    if (HISTORY_WINDOW_MS / interval !== historySize) {
+        historySize = HISTORY_WINDOW_MS / interval;
+        samplesPerState = MOTION_INTERVAL_MS / interval;
+        accelerationHistory = [];
+    }
+    Accelerometer.setUpdateInterval(interval);
+    if (!subscription) subscription = Accelerometer.addListener(handleSample);
+}
+
 export const MotionService = {
     /**
      * Start monitoring motion to detect walking/running
@@ -30,45 +171,43 @@ export const MotionService = {
     startMonitoring(onMotionChange: (state: MotionState) => void): void {
         motionCallback = onMotionChange;
         accelerationHistory = [];
-
-        Accelerometer.setUpdateInterval(200); // 5Hz
-
-        subscription = Accelerometer.addListener((data) => {
-            const mag = magnitude(data.x, data.y, data.z);
-            accelerationHistory.push(mag);
-            if (accelerationHistory.length > HISTORY_SIZE) {
-                accelerationHistory.shift();
-            }
-
-            if (accelerationHistory.length >= HISTORY_SIZE / 2) {
-                const v = variance(accelerationHistory);
-                let state: MotionState;
-
-                if (v < 0.003) {
-                    state = 'stationary';
-                } else if (v < 0.02) {
-                    state = 'walking';
-                } else {
-                    state = 'running';
-                }
-
-                if (motionCallback) {
-                    motionCallback(state);
-                }
-            }
-        });
+        updateSensor();
     },
 
     /**
      * Stop monitoring motion
      */
     stopMonitoring(): void {
-        if (subscription) {
-            subscription.remove();
-            subscription = null;
-        }
         motionCallback = null;
-        accelerationHistory = [];
+        updateSensor();
+    },
+
+    /**
+     * Count steps until the returned function is called. Each subscriber's count starts
+     * at zero; sampling runs at 25 Hz while any subscriber remains.
+     */
+    subscribeSteps(listener: StepListener): () => void {
+        if (stepListeners.size === 0) resetStepDetector();
+        stepListeners.set(listener, stepCount);
+        updateSensor();
+        return () => {
+            stepListeners.delete(listener);
+            updateSensor();
+        };
+    },
+
+    /**
+     * Current cadence (spm), falling to 0 once steps stop
+     */
+    getCadence(): number {
+        return cadence(Date.now());
+    },
+
+    /**
+     * Average cadence (spm) over a workout's moving time
+     */
+    averageCadence(steps: number, movingSec: number): number {
+        return movingSec > 0 ? Math.round(steps / (movingSec / 60)) : 0;
     },
 
     /**
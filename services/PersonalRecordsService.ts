@@ -0,0 +1,122 @@
+import { supabase } from '@/lib/supabase';
+import { BestEffort, BestEffortsService, EffortKey } from './BestEffortsService';
+
+export type PersonalRecord = {
+    effort_key: EffortKey;
+    workout_id: string;
+    distance_m: number;
+    time_sec: number;
+    achieved_on: string;  // Workout date (YYYY-MM-DD)
+};
+
+export type NewRecord = {
+    effort: BestEffort;
+    previous: BestEffort | null;
+};
+
+function toEffort(record: PersonalRecord): BestEffort {
+    return { key: record.effort_key, distanceM: Number(record.distance_m), timeSec: record.time_sec };
+}
+
+function toRow(userId: string, workoutId: string, date: string, effort: BestEffort) {
+    return {
+        user_id: userId,
+        effort_key: effort.key,
+        workout_id: workoutId,
+        distance_m: effort.distanceM,
+        time_sec: effort.timeSec,
+        achieved_on: date,
+    };
+}
+
+export const PersonalRecordsService = {
+    /**
+     * A user's current records, one per effort
+     */
+    async getRecords(userId: string): Promise<PersonalRecord[]> {
+        const { data, error } = await supabase
+            .from('personal_records')
+            .select('effort_key, workout_id, distance_m, time_sec, achieved_on')
+            .eq('user_id', userId);
+        if (error) {
+            console.error('Error loading personal records:', error);
+            return [];
+        }
+        return data ?? [];
+    },
+
+    /**
+     * Compare a newly saved workout's efforts against the user's records and store any it beats.
+     * Returns the records it set, with the ones they replaced.
+     */
+    async updateWithWorkout(userId: string, workoutId: string, date: string, efforts: BestEffort[]): Promise<NewRecord[]> {
+        if (efforts.length === 0) return [];
+
+        const current = new Map((await this.getRecords(userId)).map(r => [r.effort_key, toEffort(r)]));
+        const improved: NewRecord[] = efforts
+            .filter(e => {
+                const previous = current.get(e.key);
+                return !previous || BestEffortsService.isBetter(e, previous);
+            })
+            .map(e => ({ effort: e, previous: current.get(e.key) ?? null }));
+        if (improved.length === 0) return [];
+
+        const { error } = await supabase
+            .from('personal_records')
+            .upsert(improved.map(r => toRow(userId, workoutId, date, r.effort)), { onConflict: 'user_id,effort_key' });
+        if (error) {
+            console.error('Error saving personal records:', error);
+            return [];
+        }
+        return improved;
+    },
+
+    /**
+     * Rebuild a user's records from the best efforts stored on their workouts,
+     * after a workout was deleted or edited. Records are upserted before the ones that
+     * no longer apply are deleted, so a failure part-way never leaves the user with none.
+     */
+    async recompute(userId: string): Promise<void> {
+        const { data, error } = await supabase
+            .from('workouts')
+            .select('id, date, best_efforts')
+            .eq('user_id', userId)
+            .not('best_efforts', 'is', null)
+            .order('date', { ascending: true });
+        if (error) {
+            console.error('Error loading best efforts:', error);
+            return;
+        }
+
+        // Oldest first, so a later tie doesn't take the record from the run that set it
+        const best = new Map<EffortKey, { workoutId: string; date: string; effort: BestEffort }>();
+        for (const workout of data ?? []) {
+            for (const effort of (workout.best_efforts as BestEffort[]) ?? []) {
+                const held = best.get(effort.key);
+                if (!held || BestEffortsService.isBetter(effort, held.effort)) {
+                    best.set(effort.key, { workoutId: workout.id, date: workout.date, effort });
+                }
+            }
+        }
+
+        if (best.size > 0) {
+            const rows = Array.from(best.values()).map(b => toRow(userId, b.workoutId, b.date, b.effort));
+            const { error: upsertError } = await supabase
+                .from('personal_records')
+                .upsert(rows, { onConflict: 'user_id,effort_key' });
+            if (upsertError) {
+                console.error('Error saving personal records:', upsertError);
+                return;
+            }
+        }
+
+        // Efforts no workout holds any more (e.g. the only 10k was deleted)
+        let stale = supabase
+            .from('personal_records')
+            .delete()
+            .eq('user_id', userId);
+        if (best.size > 0) stale = stale.not('effort_key', 'in', `(${Array.from(best.keys()).join(',')})`);
+        const { error: deleteError } = await stale;
+        if (deleteError) console.error('Error clearing personal records:', deleteError);
+    },
+};
@@ -0,0 +1,125 @@
+import { DiagnosticFix } from './DiagnosticsService';
+import { ImportService } from './ImportService';
+import { LocationPoint, LocationService, LocationSource } from './LocationService';
+
+export type ReplayOptions = {
+    speedMultiplier?: number; // 1 = real time, 5 = five times faster
+    label?: string;
+};
+
+// Spacing given to tracks stored without timestamps (matches the foreground watch interval)
+const UNTIMED_INTERVAL_MS = 3000;
+// Replayed fixes without an accuracy look like a good GPS fix
+const REPLAY_ACCURACY_M = 5;
+
+/**
+ * Sort by time, spreading points evenly when the track has no timestamps
+ */
+function prepareTrack(points: LocationPoint[]): LocationPoint[] {
+    if (points.some(p => p.timestamp <= 0)) {
+        return points.map((p, i) => ({ ...p, timestamp: 1 + i * UNTIMED_INTERVAL_MS }));
+    }
+    return [...points].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export const ReplayLocationSource = {
+    /**
+     * A location source that feeds a recorded track through the live pipeline.
+     * Fixes keep their original spacing, re-based to the moment tracking starts, and
+     * only their delivery is sped up by the multiplier; the source's clock runs at the
+     * same rate, so speeds, pauses and moving time look exactly as they did on the run.
+     * Altitude, accuracy and speed are passed through.
+     */
+    create(points: LocationPoint[], { speedMultiplier = 1, label = 'Phát lại' }: ReplayOptions = {}): LocationSource {
+        const track = prepareTrack(points);
+        let timer: ReturnType<typeof setTimeout> | null = null;
+        let startedAt: number | null = null;
+
+        return {
+            name: `${label} ×${speedMultiplier}`,
+            simulated: true,
+
+            now() {
+                if (startedAt === null) return Date.now();
+                return Math.round(startedAt + (Date.now() - startedAt) * speedMultiplier);
+            },
+
+            async requestPermissions() {
+                return track.length > 1;
+            },
+
+            async start(onLocation) {
+                if (timer) clearTimeout(timer);
+                const origin = Date.now();
+                const firstTimestamp = track[0].timestamp;
+                startedAt = origin;
+                let index = 0;
+
+                // One timer at a time: schedule the next fix after delivering the current one
+                const deliverNext = () => {
+                    const point = track[index];
+                    onLocation({
+                        ...point,
+                        timestamp: origin + (point.timestamp - firstTimestamp),
+                        accuracy: point.accuracy ?? REPLAY_ACCURACY_M,
+                    });
+                    index += 1;
+                    if (index >= track.length) {
+                        timer = null;
+                        return;
+                    }
+                    const nextOffset = (track[index].timestamp - firstTimestamp) / speedMultiplier;
+                    timer = setTimeout(deliverNext, Math.max(0, origin + nextOffset - Date.now()));
+                };
+                timer = setTimeout(deliverNext, 0);
+            },
+
+            async stop() {
+                if (timer) clearTimeout(timer);
+                timer = null;
+                startedAt = null;
+            },
+        };
+    },
+
+    /**
+     * Replay a GPX or TCX document
+     */
+    fromXml(fileName: string, xml: string, options: ReplayOptions = {}): LocationSource {
+        const points = ImportService.parsePoints(fileName, xml);
+        if (points.length < 2) throw new Error('Tệp không có đủ điểm GPS có thời gian');
+        return this.create(points, { label: fileName, ...options });
+    },
+
+    /**
+     * Replay the fixes from a diagnostics recording, before any filtering
+     */
+    fromRecording(fixes: DiagnosticFix[], options: ReplayOptions = {}): LocationSource {
+        const points: LocationPoint[] = fixes.map(f => ({
+            latitude: f.latitude,
+            longitude: f.longitude,
+            timestamp: f.timestamp,
+            speed: f.speed,
+            altitude: f.altitude,
+            accuracy: f.accuracy,
+        }));
+        if (points.length < 2) throw new Error('Bản ghi chẩn đoán không có đủ điểm GPS');
+        return this.create(points, options);
+    },
+
+    /**
+     * Replay a stored workout route. Routes saved before the unfiltered fixes moved to
+     * diagnostics recordings still carry them, and those are used when present.
+     */
+    fromRoute(geojson: any, options: ReplayOptions = {}): LocationSource {
+        const raw = geojson?.properties?.raw;
+        const points = raw
+            ? LocationService.toLocationPoints({
+                geometry: { coordinates: raw.coordinates },
+                properties: { timestamps: raw.timestamps, accuracies: raw.accuracies, speeds: raw.speeds },
+            })
+            : LocationService.toLocationPoints(geojson);
+        if (points.length < 2) throw new Error('Bài chạy không có dữ liệu bản đồ');
+        return this.create(points, options);
+    },
+};
@@ -0,0 +1,52 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VoiceLanguage, VoiceStat } from './VoiceCoachService';
+
+const SETTINGS_KEY = 'app_settings';
+
+export type AppSettings = {
+    autoPauseEnabled: boolean;
+    autoPauseDelaySec: number; // How long the runner must be stationary before the clock pauses
+    diagnosticsEnabled: boolean; // Record raw fixes and sensor data for bug reports
+    treadmillStrideM: number; // Calibrated from distance corrections after treadmill runs
+    voiceEnabled: boolean;
+    voiceLanguage: VoiceLanguage;
+    voiceDistanceKm: number; // Announce every this many km; 0 = never
+    voiceTimeMin: number; // Announce every this many minutes; 0 = never
+    voiceStats: VoiceStat[]; // Read out in this order
+};
+
+const DEFAULT_SETTINGS: AppSettings = {
+    autoPauseEnabled: false,
+    autoPauseDelaySec: 10,
+    diagnosticsEnabled: false,
+    treadmillStrideM: 1.0,
+    voiceEnabled: true,
+    voiceLanguage: 'vi',
+    voiceDistanceKm: 1,
+    voiceTimeMin: 0,
+    voiceStats: ['distance', 'time', 'avgPace', 'goal'],
+};
+
+export const SettingsService = {
+    /**
+     * Get on-device settings, filling in defaults for anything not yet saved
+     */
+    async getSettings(): Promise<AppSettings> {
+        try {
+            const raw = await AsyncStorage.getItem(SETTINGS_KEY);
+            return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : { ...DEFAULT_SETTINGS };
+        } catch (error) {
+            console.error('Error reading settings:', error);
+            return { ...DEFAULT_SETTINGS };
+        }
+    },
+
+    /**
+     * Save a partial update and return the merged settings
+     */
+    async updateSettings(patch: Partial<AppSettings>): Promise<AppSettings> {
+        const settings = { ...(await this.getSettings()), ...patch };
+        await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+        return settings;
+    },
+};
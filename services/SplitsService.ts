@@ -0,0 +1,105 @@
+import { LocationPoint, LocationService, PauseInterval } from './LocationService';
+
+export type SplitUnit = 'km' | 'mi';
+
+export type Split = {
+    index: number;        // 1-based
+    distanceM: number;    // Full split length, or less for the final partial split
+    timeSec: number;      // Moving time, paused stretches excluded
+    paceSec: number;      // Seconds per unit (km or mile)
+    elevationChangeM: number | null;
+};
+
+const UNIT_METERS: Record<SplitUnit, number> = {
+    km: 1000,
+    mi: 1609.344,
+};
+
+// A trailing partial split shorter than this is just GPS settling at the finish
+const MIN_PARTIAL_M = 10;
+
+function interpolate(a: number | null, b: number | null, f: number): number | null {
+    if (a === null || b === null) return null;
+    return a + (b - a) * f;
+}
+
+function elevationChange(from: number | null, to: number | null): number | null {
+    return from !== null && to !== null ? Math.round((to - from) * 10) / 10 : null;
+}
+
+export const SplitsService = {
+    /**
+     * Walk a timestamped track and interpolate the moment each km/mile boundary was crossed.
+     * Segments recorded while paused add neither distance nor time.
+     */
+    computeSplits(points: LocationPoint[], pauses: PauseInterval[] = [], unit: SplitUnit = 'km'): Split[] {
+        if (points.length < 2 || points.some(p => p.timestamp <= 0)) return [];
+
+        const splitM = UNIT_METERS[unit];
+        const isPausedAt = (t: number) => pauses.some(p => t >= p.start && (p.end === null || t < p.end));
+        const splits: Split[] = [];
+        const pushSplit = (distanceM: number, timeSec: number, elevation: number | null) => {
+            splits.push({
+                index: splits.length + 1,
+                distanceM: Math.round(distanceM * 10) / 10,
+                timeSec: Math.round(timeSec),
+                paceSec: Math.round(timeSec / (distanceM / splitM)),
+                elevationChangeM: elevation,
+            });
+        };
+
+        let totalM = 0;
+        let totalSec = 0;
+        let splitStartSec = 0;
+        let splitStartAlt = points[0].altitude;
+
+        for (let i = 1; i < points.length; i++) {
+            const a = points[i - 1];
+            const b = points[i];
+            const dt = (b.timestamp - a.timestamp) / 1000;
+            if (dt < 0 || isPausedAt(a.timestamp) || isPausedAt(b.timestamp)) continue;
+            const d = LocationService.calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude) * 1000;
+
+            // A single segment can cross more than one boundary after a GPS gap
+            let boundary = (splits.length + 1) * splitM;
+            while (d > 0 && totalM + d >= boundary) {
+                const f = (boundary - totalM) / d;
+                const crossedSec = totalSec + f * dt;
+                const crossedAlt = interpolate(a.altitude, b.altitude, f);
+                pushSplit(splitM, crossedSec - splitStartSec, elevationChange(splitStartAlt, crossedAlt));
+                splitStartSec = crossedSec;
+                splitStartAlt = crossedAlt;
+                boundary += splitM;
+            }
+
+            totalM += d;
+            totalSec += dt;
+        }
+
+        const remainderM = totalM - splits.length * splitM;
+        if (remainderM >= MIN_PARTIAL_M && totalSec > splitStartSec) {
+            const endAlt = points[points.length - 1].altitude;
+            pushSplit(remainderM, totalSec - splitStartSec, elevationChange(splitStartAlt, endAlt));
+        }
+        return splits;
+    },
+
+    /**
+     * Splits for a stored route, honouring any pauses saved with it
+     */
+    fromRoute(geojson: any, unit: SplitUnit = 'km'): Split[] {
+        if (!geojson) return [];
+        return this.computeSplits(
+            LocationService.toLocationPoints(geojson),
+            LocationService.getPauses(geojson),
+            unit
+        );
+    },
+
+    /**
+     * Length of one split in meters
+     */
+    unitMeters(unit: SplitUnit): number {
+        return UNIT_METERS[unit];
+    },
+};
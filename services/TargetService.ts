@@ -154,4 +154,21 @@ export const TargetService = {
         if (!data) return 0;
         return data.reduce((sum, w) => sum + Number(w.distance_km), 0);
     },
+
+    /**
+     * Today's day number in the streak: a run today has already counted it, otherwise
+     * today would be the next day (as when today's target is generated)
+     */
+    streakDayToday(currentStreak: number, lastRunDate: string | null): number {
+        const ranToday = lastRunDate?.substring(0, 10) === localDateStr();
+        return ranToday ? Math.max(1, currentStreak) : currentStreak + 1;
+    },
+
+    /**
+     * Whether a streak day is in Phase 1 (day 1-29), while runners are still building up
+     * to running the whole target
+     */
+    isBeginnerPhase(streakDay: number): boolean {
+        return streakDay <= 29;
+    },
 };
@@ -0,0 +1,36 @@
+import { SettingsService } from './SettingsService';
+
+// Plausible stride range; a correction implying anything outside it is a typo
+const MIN_STRIDE_M = 0.3;
+const MAX_STRIDE_M = 2.5;
+// Too few steps to say much about stride length
+const MIN_CALIBRATION_STEPS = 200;
+// Weight of the latest run against the existing calibration, so one bad reading can't swing it
+const CALIBRATION_WEIGHT = 0.5;
+
+export const TreadmillService = {
+    /**
+     * Distance covered in km for a step count
+     */
+    distanceKm(steps: number, strideM: number): number {
+        return (steps * strideM) / 1000;
+    },
+
+    /**
+     * Blend the stride implied by a corrected distance into the saved calibration.
+     * Returns the stride used from now on.
+     */
+    async calibrateStride(steps: number, correctedKm: number): Promise<number> {
+        const { treadmillStrideM } = await SettingsService.getSettings();
+        if (steps < MIN_CALIBRATION_STEPS || correctedKm <= 0) return treadmillStrideM;
+
+        const measured = (correctedKm * 1000) / steps;
+        if (measured < MIN_STRIDE_M || measured > MAX_STRIDE_M) return treadmillStrideM;
+
+        const stride = Math.round(
+            ((1 - CALIBRATION_WEIGHT) * treadmillStrideM + CALIBRATION_WEIGHT * measured) * 1000
+        ) / 1000;
+        await SettingsService.updateSettings({ treadmillStrideM: stride });
+        return stride;
+    },
+};
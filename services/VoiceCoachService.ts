@@ -0,0 +1,260 @@
+import * as Speech from 'expo-speech';
+
+export type VoiceLanguage = 'vi' | 'en';
+
+export type VoiceStat = 'distance' | 'time' | 'avgPace' | 'splitPace' | 'calories' | 'goal';
+
+export type VoiceCoachConfig = {
+    language: VoiceLanguage;
+    distanceIntervalKm: number;   // 0 = no distance cues
+    timeIntervalMin: number;      // 0 = no time cues
+    stats: VoiceStat[];
+};
+
+// A run clears the penalty first and only the distance after that counts towards
+// today's target, as in StreakService
+export type VoiceCoachGoal = {
+    targetKm: number;
+    penaltyKm: number;
+};
+
+export type VoiceCoachProgress = {
+    distanceKm: number;
+    durationSec: number;          // Moving time
+    calories: number;
+};
+
+export const VOICE_STAT_LABELS: Record<VoiceStat, string> = {
+    distance: 'Quãng đường',
+    time: 'Thời gian',
+    avgPace: 'Pace trung bình',
+    splitPace: 'Pace đoạn vừa chạy',
+    calories: 'Calo',
+    goal: 'Mục tiêu & km phạt',
+};
+
+const SPEECH_LANGUAGES: Record<VoiceLanguage, string> = { vi: 'vi-VN', en: 'en-US' };
+// Shorter than this since the last cue and the split pace is mostly GPS noise
+const MIN_SPLIT_KM = 0.1;
+
+const PHRASES = {
+    vi: {
+        distance: (km: string) => `Quãng đường ${km} ki lô mét`,
+        time: (t: string) => `Thời gian ${t}`,
+        avgPace: (p: string) => `Pace trung bình ${p} mỗi ki lô mét`,
+        splitPace: (p: string) => `Đoạn vừa chạy ${p} mỗi ki lô mét`,
+        calories: (kcal: number) => `${kcal} ca lo`,
+        penaltyLeft: (km: string) => `Còn ${km} ki lô mét phạt`,
+        targetLeft: (km: string) => `Còn ${km} ki lô mét nữa là đạt mục tiêu hôm nay`,
+        targetDone: 'Đã đạt mục tiêu hôm nay',
+        penaltyCleared: 'Đã trả hết ki lô mét phạt',
+        targetReached: 'Chúc mừng, bạn đã đạt mục tiêu hôm nay',
+        hours: 'giờ',
+        minutes: 'phút',
+        seconds: 'giây',
+    },
+    en: {
+        distance: (km: string) => `Distance ${km} kilometers`,
+        time: (t: string) => `Time ${t}`,
+        avgPace: (p: string) => `Average pace ${p} per kilometer`,
+        splitPace: (p: string) => `Last split ${p} per kilometer`,
+        calories: (kcal: number) => `${kcal} calories`,
+        penaltyLeft: (km: string) => `${km} penalty kilometers left`,
+        targetLeft: (km: string) => `${km} kilometers to today's target`,
+        targetDone: "Today's target complete",
+        penaltyCleared: 'Penalty kilometers cleared',
+        targetReached: "Well done, you've reached today's target",
+        hours: 'hours',
+        minutes: 'minutes',
+        seconds: 'seconds',
+    },
+};
+
+let config: VoiceCoachConfig | null = null;
+let goal: VoiceCoachGoal | null = null;
+let scheduled = false;
+let nextDistanceKm = 0;
+let nextTimeSec = 0;
+let lastCue = { distanceKm: 0, durationSec: 0 };
+// Whether the penalty is cleared and the target reached; null until the goal is known
+let goalState: { penaltyCleared: boolean; targetReached: boolean } | null = null;
+
+function formatKm(km: number, language: VoiceLanguage): string {
+    const rounded = String(Math.round(km * 10) / 10);
+    return language === 'vi' ? rounded.replace('.', ',') : rounded;
+}
+
+function formatDuration(totalSec: number, language: VoiceLanguage): string {
+    const words = PHRASES[language];
+    const sec = Math.round(totalSec);
+    const h = Math.floor(sec / 3600);
+    const m = Math.floor((sec % 3600) / 60);
+    const s = sec % 60;
+    const parts: string[] = [];
+    if (h > 0) parts.push(`${h} ${words.hours}`);
+    if (m > 0) parts.push(`${m} ${words.minutes}`);
+    if (s > 0 && h === 0) parts.push(`${s} ${words.seconds}`);
+    return parts.length > 0 ? parts.join(' ') : `0 ${words.seconds}`;
+}
+
+/**
+ * Distance still owed to the penalty and to today's target after this run's distance
+ */
+function goalRemaining(distanceKm: number): { penaltyKm: number; targetKm: number } | null {
+    if (!goal) return null;
+    const penaltyKm = Math.max(0, goal.penaltyKm - distanceKm);
+    const towardTarget = Math.max(0, distanceKm - goal.penaltyKm);
+    return { penaltyKm, targetKm: Math.max(0, goal.targetKm - towardTarget) };
+}
+
+/**
+ * The stats the runner picked, in order; the split is measured from the previous cue
+ */
+function buildCue(c: VoiceCoachConfig, progress: VoiceCoachProgress, previous: { distanceKm: number; durationSec: number }): string {
+    const words = PHRASES[c.language];
+    const parts: string[] = [];
+
+    for (const stat of c.stats) {
+        switch (stat) {
+            case 'distance':
+                parts.push(words.distance(formatKm(progress.distanceKm, c.language)));
+                break;
+            case 'time':
+                parts.push(words.time(formatDuration(progress.durationSec, c.language)));
+                break;
+            case 'avgPace':
+                if (progress.distanceKm >= MIN_SPLIT_KM) {
+                    parts.push(words.avgPace(formatDuration(progress.durationSec / progress.distanceKm, c.language)));
+                }
+                break;
+            case 'splitPace': {
+                const splitKm = progress.distanceKm - previous.distanceKm;
+                const splitSec = progress.durationSec - previous.durationSec;
+                if (splitKm >= MIN_SPLIT_KM) {
+                    parts.push(words.splitPace(formatDuration(splitSec / splitKm, c.language)));
+                }
+                break;
+            }
+            case 'calories':
+                if (progress.calories > 0) parts.push(words.calories(progress.calories));
+                break;
+            case 'goal': {
+                const remaining = goalRemaining(progress.distanceKm);
+                if (!remaining) break;
+                if (remaining.penaltyKm > 0) parts.push(words.penaltyLeft(formatKm(remaining.penaltyKm, c.language)));
+                parts.push(remaining.targetKm > 0
+                    ? words.targetLeft(formatKm(remaining.targetKm, c.language))
+                    : words.targetDone);
+                break;
+            }
+        }
+    }
+    return parts.join('. ');
+}
+
+function say(text: string, language: VoiceLanguage) {
+    if (!text) return;
+    // A late cue is worse than a dropped one
+    Speech.stop();
+    Speech.speak(text, {
+        language: SPEECH_LANGUAGES[language],
+        useApplicationAudioSession: false, // Lets iOS duck music while speaking
+    });
+}
+
+export const VoiceCoachService = {
+    /**
+     * Start coaching a run. Cues are scheduled from the first progress update, so a resumed
+     * run doesn't announce the intervals it already passed.
+     */
+    start(coachConfig: VoiceCoachConfig): void {
+        config = coachConfig;
+        goal = null;
+        scheduled = false;
+        lastCue = { distanceKm: 0, durationSec: 0 };
+        goalState = null;
+    },
+
+    /**
+     * Today's goal, once loaded; the penalty as it stood before this run
+     */
+    setGoal(todayGoal: VoiceCoachGoal | null): void {
+        goal = todayGoal;
+        goalState = null;
+    },
+
+    stop(): void {
+        config = null;
+        goal = null;
+        Speech.stop();
+    },
+
+    /**
+     * Feed the run's live progress; speaks when a distance or time interval is crossed,
+     * and once when the penalty is cleared and when today's target is reached
+     */
+    update(progress: VoiceCoachProgress): void {
+        if (!config) return;
+        const c = config;
+        const words = PHRASES[c.language];
+        const cues: string[] = [];
+
+        if (!scheduled) {
+            scheduled = true;
+            const intervalSec = c.timeIntervalMin * 60;
+            if (c.distanceIntervalKm > 0) {
+                nextDistanceKm = (Math.floor(progress.distanceKm / c.distanceIntervalKm) + 1) * c.distanceIntervalKm;
+            }
+            if (intervalSec > 0) nextTimeSec = (Math.floor(progress.durationSec / intervalSec) + 1) * intervalSec;
+            lastCue = { distanceKm: progress.distanceKm, durationSec: progress.durationSec };
+        }
+
+        const remaining = goalRemaining(progress.distanceKm);
+        if (remaining) {
+            const state = { penaltyCleared: remaining.penaltyKm === 0, targetReached: remaining.targetKm === 0 };
+            // Whatever was already done when the goal became known isn't news
+            if (goalState && c.stats.includes('goal')) {
+                if (state.penaltyCleared && !goalState.penaltyCleared) cues.push(words.penaltyCleared);
+                if (state.targetReached && !goalState.targetReached) cues.push(words.targetReached);
+            }
+            goalState = state;
+        }
+
+        let due = false;
+        if (c.distanceIntervalKm > 0 && progress.distanceKm >= nextDistanceKm) {
+            due = true;
+            while (nextDistanceKm <= progress.distanceKm) nextDistanceKm += c.distanceIntervalKm;
+        }
+        if (c.timeIntervalMin > 0 && progress.durationSec >= nextTimeSec) {
+            due = true;
+            while (nextTimeSec <= progress.durationSec) nextTimeSec += c.timeIntervalMin * 60;
+        }
+        if (due) {
+            cues.push(buildCue(c, progress, lastCue));
+            lastCue = { distanceKm: progress.distanceKm, durationSec: progress.durationSec };
+        }
+        if (cues.length > 0) say(cues.filter(Boolean).join('. '), c.language);
+    },
+
+    /**
+     * Speak any other cue (interval transitions) through the same voice
+     */
+    speak(text: string, language: VoiceLanguage): void {
+        say(text, language);
+    },
+
+    /**
+     * A duration in words, e.g. "1 phút 30 giây"
+     */
+    spokenDuration(totalSec: number, language: VoiceLanguage): string {
+        return formatDuration(totalSec, language);
+    },
+
+    /**
+     * Speak a sample cue so runners can check the voice and the stats they picked
+     */
+    preview(coachConfig: VoiceCoachConfig): void {
+        const sample = { distanceKm: 2, durationSec: 12 * 60 + 30, calories: 150 };
+        say(buildCue(coachConfig, sample, { distanceKm: 1, durationSec: 6 * 60 + 5 }), coachConfig.language);
+    },
+};
@@ -0,0 +1,314 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CaloriesService } from './CaloriesService';
+import { IntervalStep, StepResult } from './IntervalService';
+import { LocationPoint, LocationService, PauseInterval } from './LocationService';
+import { MotionService } from './MotionService';
+import { TreadmillService } from './TreadmillService';
+
+// Keyed by user, so another account signing in on the phone isn't offered this run
+const JOURNAL_META_PREFIX = 'workout_journal_meta_';
+const JOURNAL_CHUNK_PREFIX = 'workout_journal_chunk_';
+// Events are split into small chunks so each write only rewrites the tail of the journal
+const CHUNK_SIZE = 50;
+
+export type TrackingMode = 'gps' | 'treadmill';
+
+export type JournalEvent =
+    | { type: 'point'; point: LocationPoint }
+    | { type: 'steps'; at: number; total: number } // Steps counted so far, pauses excluded
+    | { type: 'interval'; at: number; result: StepResult } // An interval step finished
+    | { type: 'pause'; at: number }
+    | { type: 'resume'; at: number };
+
+type JournalMeta = {
+    startedAt: number;
+    chunkCount: number;
+    mode?: TrackingMode; // Journals written before treadmill mode are GPS
+    strideM?: number;
+    intervals?: IntervalStep[]; // Set for structured interval workouts
+};
+
+export type RecoveredWorkout = {
+    startedAt: number;
+    mode: TrackingMode;
+    strideM: number | null;
+    steps: number;
+    intervals: IntervalStep[] | null;
+    intervalResults: StepResult[];
+    points: LocationPoint[];
+    pauses: PauseInterval[];
+    pausedDurationMs: number;
+    pausedAt: number | null; // Set if the session was paused when it was interrupted
+    lastEventAt: number;
+};
+
+// In-memory mirror of the journal being written
+let journalUserId: string | null = null;
+let meta: JournalMeta | null = null;
+let chunk: JournalEvent[] = [];
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Serialize writes so chunks land in AsyncStorage in the order they were recorded
+ */
+function enqueue(task: () => Promise<void>): Promise<void> {
+    writeQueue = writeQueue
+        .then(task)
+        .catch((error) => console.error('Workout journal write failed:', error));
+    return writeQueue;
+}
+
+function metaKey(userId: string): string {
+    return `${JOURNAL_META_PREFIX}${userId}`;
+}
+
+function chunkKey(userId: string, index: number): string {
+    return `${JOURNAL_CHUNK_PREFIX}${userId}_${index}`;
+}
+
+/**
+ * Rebuild route and pause state from the recorded events
+ */
+function replay(journalMeta: JournalMeta, events: JournalEvent[]): RecoveredWorkout {
+    const { startedAt } = journalMeta;
+    const points: LocationPoint[] = [];
+    let steps = 0;
+    const intervalResults: StepResult[] = [];
+    const pauses: PauseInterval[] = [];
+    let pausedDurationMs = 0;
+    let pausedAt: number | null = null;
+    let lastEventAt = startedAt;
+
+    for (const event of events) {
+        if (event.type === 'point') {
+            points.push(event.point);
+            lastEventAt = Math.max(lastEventAt, event.point.timestamp);
+        } else if (event.type === 'steps') {
+            steps = event.total;
+            lastEventAt = Math.max(lastEventAt, event.at);
+        } else if (event.type === 'interval') {
+            intervalResults.push(event.result);
+            lastEventAt = Math.max(lastEventAt, event.at);
+        } else if (event.type === 'pause') {
+            if (pausedAt === null) {
+                pausedAt = event.at;
+                pauses.push({ start: event.at, end: null });
+            }
+            lastEventAt = Math.max(lastEventAt, event.at);
+        } else if (pausedAt !== null) {
+            pausedDurationMs += event.at - pausedAt;
+            pauses[pauses.length - 1].end = event.at;
+            pausedAt = null;
+            lastEventAt = Math.max(lastEventAt, event.at);
+        }
+    }
+
+    // Fixes from a late background batch were journaled after newer ones
+    points.sort((a, b) => a.timestamp - b.timestamp);
+
+    return {
+        startedAt,
+        mode: journalMeta.mode ?? 'gps',
+        strideM: journalMeta.strideM ?? null,
+        steps,
+        intervals: journalMeta.intervals ?? null,
+        intervalResults,
+        points,
+        pauses,
+        pausedDurationMs,
+        pausedAt,
+        lastEventAt,
+    };
+}
+
+async function readJournal(userId: string): Promise<{ meta: JournalMeta; events: JournalEvent[][] } | null> {
+    const rawMeta = await AsyncStorage.getItem(metaKey(userId));
+    if (!rawMeta) return null;
+
+    const storedMeta: JournalMeta = JSON.parse(rawMeta);
+    const keys = Array.from({ length: storedMeta.chunkCount }, (_, i) => chunkKey(userId, i));
+    const stored = await AsyncStorage.multiGet(keys);
+    const events = stored.map(([, value]) => (value ? JSON.parse(value) as JournalEvent[] : []));
+
+    return { meta: storedMeta, events };
+}
+
+export const WorkoutJournalService = {
+    /**
+     * Begin a fresh journal for a new workout, discarding any previous one.
+     * Treadmill sessions keep the stride they started with so recovery measures the same distance,
+     * and interval sessions their steps so recovery carries on with the same workout.
+     */
+    async start(
+        userId: string,
+        startedAt: number,
+        mode: TrackingMode = 'gps',
+        strideM?: number,
+        intervals?: IntervalStep[]
+    ): Promise<void> {
+        await this.clear(userId);
+        journalUserId = userId;
+        meta = { startedAt, chunkCount: 1, mode, strideM, intervals };
+        chunk = [];
+        const snapshot = JSON.stringify(meta);
+        await enqueue(() => AsyncStorage.multiSet([
+            [metaKey(userId), snapshot],
+            [chunkKey(userId, 0), '[]'],
+        ]));
+    },
+
+    /**
+     * Stop appending without deleting anything: the workout ended (the journal stays until
+     * the run is saved) or one started that isn't journaled
+     */
+    close(): Promise<void> {
+        journalUserId = null;
+        meta = null;
+        chunk = [];
+        return writeQueue;
+    },
+
+    /**
+     * Append an event to the journal (no-op when no journal is open)
+     */
+    append(event: JournalEvent): Promise<void> {
+        if (!meta || !journalUserId) return Promise.resolve();
+        const userId = journalUserId;
+
+        if (chunk.length >= CHUNK_SIZE) {
+            chunk = [];
+            meta.chunkCount += 1;
+        }
+        chunk.push(event);
+
+        const metaSnapshot = JSON.stringify(meta);
+        const chunkSnapshot = JSON.stringify(chunk);
+        const key = chunkKey(userId, meta.chunkCount - 1);
+        return enqueue(() => AsyncStorage.multiSet([
+            [metaKey(userId), metaSnapshot],
+            [key, chunkSnapshot],
+        ]));
+    },
+
+    recordPoint(point: LocationPoint): Promise<void> {
+        return this.append({ type: 'point', point });
+    },
+
+    recordSteps(total: number, at: number = Date.now()): Promise<void> {
+        return this.append({ type: 'steps', at, total });
+    },
+
+    recordInterval(result: StepResult, at: number = Date.now()): Promise<void> {
+        return this.append({ type: 'interval', at, result });
+    },
+
+    recordPause(at: number = Date.now()): Promise<void> {
+        return this.append({ type: 'pause', at });
+    },
+
+    recordResume(at: number = Date.now()): Promise<void> {
+        return this.append({ type: 'resume', at });
+    },
+
+    /**
+     * Read an unfinished workout left behind by an interrupted session, without reopening it
+     */
+    async getUnfinished(userId: string): Promise<RecoveredWorkout | null> {
+        try {
+            const journal = await readJournal(userId);
+            if (!journal) return null;
+            return replay(journal.meta, journal.events.flat());
+        } catch (error) {
+            console.error('Error reading workout journal:', error);
+            return null;
+        }
+    },
+
+    /**
+     * Reopen the unfinished journal so new events keep appending to it.
+     * The time between the last recorded event and now is journaled as a pause.
+     */
+    async resume(userId: string): Promise<RecoveredWorkout | null> {
+        const journal = await readJournal(userId);
+        if (!journal) return null;
+
+        journalUserId = userId;
+        meta = journal.meta;
+        chunk = journal.events[journal.events.length - 1] ?? [];
+
+        const recovered = replay(meta, journal.events.flat());
+        const now = Date.now();
+        if (recovered.pausedAt === null) {
+            await this.recordPause(recovered.lastEventAt);
+            recovered.pausedAt = recovered.lastEventAt;
+            recovered.pauses.push({ start: recovered.lastEventAt, end: null });
+        }
+        await this.recordResume(now);
+        recovered.pausedDurationMs += now - recovered.pausedAt;
+        recovered.pauses[recovered.pauses.length - 1].end = now;
+        recovered.pausedAt = null;
+
+        return recovered;
+    },
+
+    /**
+     * Close and delete a user's journal (workout saved or discarded)
+     */
+    async clear(userId: string): Promise<void> {
+        if (journalUserId === userId) await this.close();
+        await enqueue(async () => {
+            const keys = await AsyncStorage.getAllKeys();
+            const journalKeys = keys.filter(k => k === metaKey(userId) || k.startsWith(`${JOURNAL_CHUNK_PREFIX}${userId}_`));
+            if (journalKeys.length > 0) await AsyncStorage.multiRemove(journalKeys);
+        });
+    },
+
+    /**
+     * Build workout-summary params for finishing a recovered workout as-is
+     */
+    toSummaryParams(recovered: RecoveredWorkout) {
+        const finishedAt = recovered.pausedAt ?? recovered.lastEventAt;
+        const durationSec = Math.max(0, Math.floor(
+            (finishedAt - recovered.startedAt - recovered.pausedDurationMs) / 1000
+        ));
+        const elapsed = Math.floor((finishedAt - recovered.startedAt) / 1000).toString();
+        const avgCadence = MotionService.averageCadence(recovered.steps, durationSec).toString();
+        // Steps finished before the interruption; the one in progress is lost with its boundary
+        const intervals = recovered.intervals ? { intervals: JSON.stringify(recovered.intervalResults) } : {};
+
+        if (recovered.mode === 'treadmill') {
+            const strideM = recovered.strideM ?? 0;
+            const distance = TreadmillService.distanceKm(recovered.steps, strideM);
+            const calories = CaloriesService.forDistance(distance, durationSec);
+            return {
+                distance: distance.toFixed(4),
+                duration: durationSec.toString(),
+                elapsed,
+                calories: calories.toString(),
+                routeGeoJSON: '',
+                startedAt: new Date(recovered.startedAt).toISOString(),
+                finishedAt: new Date(finishedAt).toISOString(),
+                avgCadence,
+                source: 'treadmill',
+                steps: recovered.steps.toString(),
+                ...intervals,
+            };
+        }
+
+        const track = LocationService.filterTrack(recovered.points);
+        const distance = LocationService.calculateMovingDistance(track, recovered.pauses);
+        const calories = CaloriesService.forTrack(track, recovered.pauses);
+
+        return {
+            distance: distance.toFixed(4),
+            duration: durationSec.toString(),
+            elapsed,
+            calories: calories.toString(),
+            routeGeoJSON: JSON.stringify(LocationService.toGeoJSON(track, recovered.pauses)),
+            startedAt: new Date(recovered.startedAt).toISOString(),
+            finishedAt: new Date(finishedAt).toISOString(),
+            avgCadence,
+            ...intervals,
+        };
+    },
+};
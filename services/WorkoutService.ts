@@ -0,0 +1,250 @@
+import { supabase } from '@/lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BestEffortsService } from './BestEffortsService';
+import { CaloriesService } from './CaloriesService';
+import { StepResult } from './IntervalService';
+import { LocationService } from './LocationService';
+import { NewRecord, PersonalRecordsService } from './PersonalRecordsService';
+import { Split } from './SplitsService';
+import { StreakService } from './StreakService';
+import { TargetService } from './TargetService';
+
+export type WorkoutSource = 'gps' | 'import' | 'manual' | 'treadmill';
+
+export type NewWorkout = {
+    distanceKm: number;
+    durationSec: number; // Moving time, pauses excluded
+    elapsedSec: number;
+    calories: number;
+    routeGeoJSON: object | null;
+    startedAt: string | null;
+    finishedAt: string;
+    source: WorkoutSource;
+    notes?: string | null;
+    splits?: Split[] | null; // Per-km splits
+    avgCadence?: number | null; // Steps per minute of moving time
+    intervals?: StepResult[] | null; // Per-step results of a structured interval workout
+};
+
+export type WorkoutEdit = {
+    distanceKm: number;
+    durationSec: number;
+    notes: string | null;
+};
+
+export type StreakResult = Awaited<ReturnType<typeof StreakService.updateStreakAfterWorkout>>;
+
+// Distances this close for the same start time are the same run saved twice
+const DUPLICATE_DISTANCE_KM = 0.05;
+
+// Set once a user's older workouts have had their best efforts computed
+const BEST_EFFORTS_BACKFILL_PREFIX = 'best_efforts_backfilled_';
+const BACKFILL_BATCH_SIZE = 20; // Routes downloaded at a time
+
+function localDateStr(d: Date = new Date()): string {
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export const WorkoutService = {
+    /**
+     * Whether workouts from this source have a GPS route (older rows have no source)
+     */
+    hasRoute(source: WorkoutSource | null | undefined): boolean {
+        return source !== 'manual' && source !== 'treadmill';
+    },
+
+    /**
+     * Full-resolution routes for these workouts, by workout id. They are kept out of the
+     * workouts table, so lists only ever load the encoded preview; workouts saved before
+     * that still have the route on their own row.
+     */
+    async loadRoutes(workoutIds: string[]): Promise<Map<string, any>> {
+        const routes = new Map<string, any>();
+        if (workoutIds.length === 0) return routes;
+
+        const { data, error } = await supabase
+            .from('workout_tracks')
+            .select('workout_id, route_geojson')
+            .in('workout_id', workoutIds);
+        if (error) throw error;
+        for (const track of data) routes.set(track.workout_id, track.route_geojson);
+
+        const legacyIds = workoutIds.filter(id => !routes.has(id));
+        if (legacyIds.length > 0) {
+            const { data: legacy, error: legacyError } = await supabase
+                .from('workouts')
+                .select('id, route_geojson')
+                .in('id', legacyIds)
+                .not('route_geojson', 'is', null);
+            if (legacyError) throw legacyError;
+            for (const w of legacy) routes.set(w.id, w.route_geojson);
+        }
+        return routes;
+    },
+
+    /**
+     * Full-resolution route of one workout, or null if it has none
+     */
+    async loadRoute(workoutId: string): Promise<any | null> {
+        return (await this.loadRoutes([workoutId])).get(workoutId) ?? null;
+    },
+
+    /**
+     * The id of a saved workout with the same start time and distance, if there is one
+     */
+    async findDuplicate(userId: string, startedAt: string | null, distanceKm: number): Promise<string | null> {
+        if (!startedAt) return null;
+        const { data, error } = await supabase
+            .from('workouts')
+            .select('id')
+            .eq('user_id', userId)
+            .eq('started_at', startedAt)
+            .gte('distance_km', distanceKm - DUPLICATE_DISTANCE_KM)
+            .lte('distance_km', distanceKm + DUPLICATE_DISTANCE_KM)
+            .limit(1)
+            .maybeSingle();
+        if (error) throw error;
+        return data?.id ?? null;
+    },
+
+    /**
+     * Save a finished workout, record any personal bests it set and, when it happened today,
+     * credit it to the streak. The streak result is null for workouts dated before today.
+     * A workout that was already saved (same start and distance) isn't saved or credited
+     * again; `duplicate` is set instead.
+     */
+    async saveWorkout(userId: string, workout: NewWorkout): Promise<{ streak: StreakResult | null; records: NewRecord[]; duplicate: boolean }> {
+        if (await this.findDuplicate(userId, workout.startedAt, workout.distanceKm)) {
+            return { streak: null, records: [], duplicate: true };
+        }
+
+        // A run counts on the day it was finished
+        const date = localDateStr(new Date(workout.finishedAt));
+        const bestEfforts = BestEffortsService.forWorkout(workout.routeGeoJSON, workout.distanceKm, workout.durationSec);
+
+        const { data, error } = await supabase.from('workouts').insert({
+            user_id: userId,
+            distance_km: workout.distanceKm,
+            duration_sec: workout.durationSec,
+            moving_time_sec: workout.durationSec,
+            elapsed_sec: workout.elapsedSec,
+            route_preview: LocationService.toRoutePreview(workout.routeGeoJSON),
+            calories: workout.calories,
+            date,
+            started_at: workout.startedAt,
+            finished_at: workout.finishedAt,
+            source: workout.source,
+            notes: workout.notes ?? null,
+            splits: workout.splits ?? null,
+            avg_cadence: workout.avgCadence || null,
+            interval_results: workout.intervals ?? null,
+            best_efforts: bestEfforts,
+        }).select('id').single();
+
+        if (error) throw error;
+
+        if (workout.routeGeoJSON) {
+            const { error: trackError } = await supabase.from('workout_tracks').insert({
+                workout_id: data.id,
+                user_id: userId,
+                route_geojson: workout.routeGeoJSON,
+            });
+            // Without its track the run can't be retried (it would be a duplicate), so undo it
+            if (trackError) {
+                await supabase.from('workouts').delete().eq('id', data.id);
+                throw trackError;
+            }
+        }
+
+        const records = await PersonalRecordsService.updateWithWorkout(userId, data.id, date, bestEfforts);
+
+        // Only today's workouts count towards today's target
+        if (date !== localDateStr()) return { streak: null, records, duplicate: false };
+
+        const todayTarget = await TargetService.getTodayTarget(userId);
+        const streak = await StreakService.updateStreakAfterWorkout(userId, workout.distanceKm, todayTarget);
+        return { streak, records, duplicate: false };
+    },
+
+    /**
+     * Correct a saved workout's distance, time or notes. Its best efforts are rebuilt and
+     * personal records recomputed; the streak credit it earned is left as it was.
+     */
+    async updateWorkout(userId: string, workoutId: string, edit: WorkoutEdit): Promise<{ error: { message: string } | null }> {
+        let route: any | null;
+        try {
+            route = await this.loadRoute(workoutId);
+        } catch (loadError: any) {
+            return { error: { message: loadError.message } };
+        }
+
+        const { error } = await supabase
+            .from('workouts')
+            .update({
+                distance_km: edit.distanceKm,
+                duration_sec: edit.durationSec,
+                moving_time_sec: edit.durationSec,
+                calories: route
+                    ? CaloriesService.forTrack(
+                        LocationService.toLocationPoints(route),
+                        LocationService.getPauses(route)
+                    )
+                    : CaloriesService.forDistance(edit.distanceKm, edit.durationSec),
+                notes: edit.notes,
+                best_efforts: BestEffortsService.forWorkout(route, edit.distanceKm, edit.durationSec),
+            })
+            .eq('id', workoutId)
+            .eq('user_id', userId);
+        if (error) return { error: { message: error.message } };
+
+        await PersonalRecordsService.recompute(userId);
+        return { error: null };
+    },
+
+    /**
+     * Compute best efforts for workouts saved before they were stored, from their routes,
+     * then rebuild the user's records to include them. Runs once per user on each device.
+     */
+    async backfillBestEfforts(userId: string): Promise<void> {
+        const doneKey = `${BEST_EFFORTS_BACKFILL_PREFIX}${userId}`;
+        if (await AsyncStorage.getItem(doneKey)) return;
+
+        const { data, error } = await supabase
+            .from('workouts')
+            .select('id, distance_km, duration_sec')
+            .eq('user_id', userId)
+            .is('best_efforts', null);
+        if (error) throw error;
+
+        for (let i = 0; i < data.length; i += BACKFILL_BATCH_SIZE) {
+            const batch = data.slice(i, i + BACKFILL_BATCH_SIZE);
+            const routes = await this.loadRoutes(batch.map(w => w.id));
+            for (const w of batch) {
+                const bestEfforts = BestEffortsService.forWorkout(routes.get(w.id) ?? null, Number(w.distance_km), w.duration_sec);
+                const { error: updateError } = await supabase
+                    .from('workouts')
+                    .update({ best_efforts: bestEfforts })
+                    .eq('id', w.id)
+                    .eq('user_id', userId);
+                if (updateError) throw updateError;
+            }
+        }
+        if (data.length > 0) await PersonalRecordsService.recompute(userId);
+        await AsyncStorage.setItem(doneKey, '1');
+    },
+
+    /**
+     * Delete a workout and recompute personal records without it
+     */
+    async deleteWorkout(userId: string, workoutId: string): Promise<{ error: { message: string } | null }> {
+        const { error } = await supabase
+            .from('workouts')
+            .delete()
+            .eq('id', workoutId)
+            .eq('user_id', userId);
+        if (error) return { error: { message: error.message } };
+
+        await PersonalRecordsService.recompute(userId);
+        return { error: null };
+    },
+};